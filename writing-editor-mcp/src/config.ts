@@ -0,0 +1,305 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { RuleSelection, SeverityThresholds, VocabularyLayer, WritingEditorConfig } from './types';
+import { DEFAULT_VOCABULARY } from './vocabulary/defaults';
+import { VOCABULARY_KEYS, mergeVocabularyPacks } from './vocabulary/packs';
+
+export const CONFIG_FILENAMES = [
+  '.writingeditorrc',
+  '.writingeditorrc.json',
+  '.writingeditorrc.yaml',
+  '.writingeditorrc.yml'
+];
+
+export const DEFAULT_CONFIG: WritingEditorConfig = {
+  thresholds: {
+    longSentenceWords: 25,
+    maxClauses: 2,
+    abstractMinWords: 100,
+    abstractMaxWords: 250,
+    maxGradeLevel: 14
+  },
+  severity: {
+    passiveVoice: { medium: 2, high: 5 },
+    longSentences: { medium: 2, high: 5 },
+    complexVocabulary: { medium: 10, high: 20 },
+    jargon: { medium: 5, high: 10 },
+    redundancy: { medium: 2, high: 5 },
+    multipleClauses: { medium: 2, high: 5 }
+  },
+  vocabulary: DEFAULT_VOCABULARY,
+  rules: {
+    // Future tense is expected when describing planned work and requirements
+    sectionDisabledRules: {
+      'Future Work': ['tense'],
+      'Requirements': ['tense']
+    }
+  },
+  structure: {
+    generateText: false
+  }
+};
+
+export class ConfigError extends Error {
+  constructor(message: string, public readonly source?: string) {
+    super(source ? `${source}: ${message}` : message);
+    this.name = 'ConfigError';
+  }
+}
+
+export async function loadConfig(
+  configPath?: string,
+  cwd: string = process.cwd()
+): Promise<WritingEditorConfig> {
+  const file = configPath ? path.resolve(cwd, configPath) : await findConfigFile(cwd);
+  if (!file) {
+    return DEFAULT_CONFIG;
+  }
+
+  const parsed = parseConfig(await readConfigFile(file), file);
+  // Packs are named in the file, so it is validated once without them
+  const { packPaths } = checkConfig(parsed, file);
+  const packs = await Promise.all(
+    packPaths.map(packPath => loadVocabularyPack(path.resolve(path.dirname(file), packPath)))
+  );
+
+  return validateConfig(parsed, file, packs);
+}
+
+export async function loadVocabularyPack(file: string): Promise<VocabularyLayer> {
+  const parsed = parseConfig(await readConfigFile(file), file);
+  return validateVocabularyLayer(parsed ?? {}, 'vocabulary pack', file);
+}
+
+async function readConfigFile(file: string): Promise<string> {
+  try {
+    return await fs.readFile(file, 'utf-8');
+  } catch (error) {
+    throw new ConfigError(`Unable to read file (${(error as Error).message})`, file);
+  }
+}
+
+export async function findConfigFile(startDir: string): Promise<string | undefined> {
+  let dir = path.resolve(startDir);
+
+  while (true) {
+    for (const name of CONFIG_FILENAMES) {
+      const candidate = path.join(dir, name);
+      try {
+        const stat = await fs.stat(candidate);
+        if (stat.isFile()) return candidate;
+      } catch {
+        // Not present in this directory
+      }
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+function parseConfig(raw: string, source: string): unknown {
+  if (!raw.trim()) return {};
+
+  try {
+    if (source.endsWith('.json')) {
+      return JSON.parse(raw);
+    }
+    // YAML is a superset of JSON, so extensionless files accept either
+    return parseYaml(raw);
+  } catch (error) {
+    throw new ConfigError(`Invalid syntax (${(error as Error).message})`, source);
+  }
+}
+
+export function validateConfig(
+  raw: unknown,
+  source?: string,
+  packs: VocabularyLayer[] = []
+): WritingEditorConfig {
+  return checkConfig(raw, source, packs).config;
+}
+
+// The validated config and the vocabulary pack paths it names
+function checkConfig(
+  raw: unknown,
+  source?: string,
+  packs: VocabularyLayer[] = []
+): { config: WritingEditorConfig; packPaths: string[] } {
+  if (raw === null || raw === undefined) return { config: DEFAULT_CONFIG, packPaths: [] };
+  const root = expectObject(raw, 'config', source);
+  checkKeys(root, ['thresholds', 'severity', 'vocabulary', 'rules', 'structure'], 'config', source);
+
+  const thresholds = expectObject(root.thresholds ?? {}, 'thresholds', source);
+  checkKeys(thresholds, Object.keys(DEFAULT_CONFIG.thresholds), 'thresholds', source);
+  const mergedThresholds = { ...DEFAULT_CONFIG.thresholds };
+  for (const key of Object.keys(thresholds) as (keyof WritingEditorConfig['thresholds'])[]) {
+    mergedThresholds[key] = expectPositiveInteger(thresholds[key], `thresholds.${key}`, source);
+  }
+  if (mergedThresholds.abstractMinWords > mergedThresholds.abstractMaxWords) {
+    throw new ConfigError('thresholds.abstractMinWords must not exceed thresholds.abstractMaxWords', source);
+  }
+
+  const severity = expectObject(root.severity ?? {}, 'severity', source);
+  checkKeys(severity, Object.keys(DEFAULT_CONFIG.severity), 'severity', source);
+  const mergedSeverity = { ...DEFAULT_CONFIG.severity };
+  for (const key of Object.keys(severity) as (keyof WritingEditorConfig['severity'])[]) {
+    mergedSeverity[key] = validateSeverity(severity[key], DEFAULT_CONFIG.severity[key], `severity.${key}`, source);
+  }
+
+  const { packs: packList, ...inlineVocabulary } = expectObject(root.vocabulary ?? {}, 'vocabulary', source);
+  const packPaths = packList !== undefined ? expectStringArray(packList, 'vocabulary.packs', source) : [];
+  const projectVocabulary = validateVocabularyLayer(inlineVocabulary, 'vocabulary', source);
+
+  const rules = expectObject(root.rules ?? {}, 'rules', source);
+  checkKeys(rules, ['enabled', 'disabled', 'order', 'sections'], 'rules', source);
+  const selection: RuleSelection = { sectionDisabledRules: { ...DEFAULT_CONFIG.rules.sectionDisabledRules } };
+  if (rules.enabled !== undefined) {
+    selection.enabledRules = expectStringArray(rules.enabled, 'rules.enabled', source);
+  }
+  if (rules.disabled !== undefined) {
+    selection.disabledRules = expectStringArray(rules.disabled, 'rules.disabled', source);
+  }
+  if (rules.order !== undefined) {
+    selection.ruleOrder = expectStringArray(rules.order, 'rules.order', source);
+  }
+  if (rules.sections !== undefined) {
+    const sections = expectObject(rules.sections, 'rules.sections', source);
+    for (const title of Object.keys(sections)) {
+      selection.sectionDisabledRules![title] = expectStringArray(sections[title], `rules.sections.${title}`, source);
+    }
+  }
+
+  const structure = expectObject(root.structure ?? {}, 'structure', source);
+  checkKeys(structure, Object.keys(DEFAULT_CONFIG.structure), 'structure', source);
+  const mergedStructure = { ...DEFAULT_CONFIG.structure };
+  if (structure.generateText !== undefined) {
+    mergedStructure.generateText = expectBoolean(structure.generateText, 'structure.generateText', source);
+  }
+
+  return {
+    config: {
+      thresholds: mergedThresholds,
+      severity: mergedSeverity,
+      vocabulary: mergeVocabularyPacks(DEFAULT_VOCABULARY, ...packs, projectVocabulary),
+      rules: selection,
+      structure: mergedStructure
+    },
+    packPaths
+  };
+}
+
+export function resolveRuleSelection(
+  config: WritingEditorConfig,
+  selection: RuleSelection = {}
+): RuleSelection {
+  return {
+    enabledRules: selection.enabledRules ?? config.rules.enabledRules,
+    ruleOrder: selection.ruleOrder ?? config.rules.ruleOrder,
+    disabledRules: [
+      ...(config.rules.disabledRules || []),
+      ...(selection.disabledRules || [])
+    ],
+    sectionDisabledRules: {
+      ...config.rules.sectionDisabledRules,
+      ...selection.sectionDisabledRules
+    }
+  };
+}
+
+function validateVocabularyLayer(value: unknown, field: string, source?: string): VocabularyLayer {
+  const obj = expectObject(value, field, source);
+  checkKeys(obj, VOCABULARY_KEYS, field, source);
+
+  const layer: VocabularyLayer = {};
+  if (obj.forbidden !== undefined) {
+    layer.forbidden = expectStringArray(obj.forbidden, `${field}.forbidden`, source);
+  }
+  if (obj.allow !== undefined) {
+    layer.allow = expectStringArray(obj.allow, `${field}.allow`, source);
+  }
+  if (obj.replacements !== undefined) {
+    layer.replacements = expectStringMap(obj.replacements, `${field}.replacements`, source);
+  }
+  if (obj.redundant !== undefined) {
+    layer.redundant = expectStringMap(obj.redundant, `${field}.redundant`, source);
+  }
+  if (obj.weakVerbs !== undefined) {
+    layer.weakVerbs = expectStringMap(obj.weakVerbs, `${field}.weakVerbs`, source);
+  }
+  return layer;
+}
+
+function validateSeverity(
+  value: unknown,
+  defaults: SeverityThresholds,
+  field: string,
+  source?: string
+): SeverityThresholds {
+  const obj = expectObject(value, field, source);
+  checkKeys(obj, ['medium', 'high'], field, source);
+  const merged = {
+    medium: obj.medium === undefined ? defaults.medium : expectNonNegativeInteger(obj.medium, `${field}.medium`, source),
+    high: obj.high === undefined ? defaults.high : expectNonNegativeInteger(obj.high, `${field}.high`, source)
+  };
+  if (merged.medium > merged.high) {
+    throw new ConfigError(`${field}.medium must not exceed ${field}.high`, source);
+  }
+  return merged;
+}
+
+function expectObject(value: unknown, field: string, source?: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ConfigError(`${field} must be an object`, source);
+  }
+  return value as Record<string, unknown>;
+}
+
+function checkKeys(obj: Record<string, unknown>, allowed: string[], field: string, source?: string): void {
+  const unknown = Object.keys(obj).filter(key => !allowed.includes(key));
+  if (unknown.length > 0) {
+    throw new ConfigError(
+      `Unknown key${unknown.length > 1 ? 's' : ''} in ${field}: ${unknown.join(', ')} (expected ${allowed.join(', ')})`,
+      source
+    );
+  }
+}
+
+function expectPositiveInteger(value: unknown, field: string, source?: string): number {
+  if (!Number.isInteger(value) || (value as number) <= 0) {
+    throw new ConfigError(`${field} must be a positive integer`, source);
+  }
+  return value as number;
+}
+
+function expectNonNegativeInteger(value: unknown, field: string, source?: string): number {
+  if (!Number.isInteger(value) || (value as number) < 0) {
+    throw new ConfigError(`${field} must be a non-negative integer`, source);
+  }
+  return value as number;
+}
+
+function expectBoolean(value: unknown, field: string, source?: string): boolean {
+  if (typeof value !== 'boolean') {
+    throw new ConfigError(`${field} must be true or false`, source);
+  }
+  return value;
+}
+
+function expectStringArray(value: unknown, field: string, source?: string): string[] {
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new ConfigError(`${field} must be a list of strings`, source);
+  }
+  return value as string[];
+}
+
+function expectStringMap(value: unknown, field: string, source?: string): { [key: string]: string } {
+  const obj = expectObject(value, field, source);
+  const invalid = Object.keys(obj).filter(key => typeof obj[key] !== 'string');
+  if (invalid.length > 0) {
+    throw new ConfigError(`${field} values must be strings (check ${invalid.join(', ')})`, source);
+  }
+  return obj as { [key: string]: string };
+}
@@ -0,0 +1,12 @@
+import { DocumentFormat } from '../types';
+
+/**
+ * A note for the author at the place where content is missing, as a comment
+ * so it never renders: `<!-- TODO [introduction-structure]: state the
+ * contributions -->` in Markdown, `% TODO [...]: ...` in LaTeX. The rule id
+ * says which check asked for it.
+ */
+export function todoAnnotation(message: string, ruleId: string, format: DocumentFormat = 'markdown'): string {
+  const note = `TODO [${ruleId}]: ${message}`;
+  return format === 'latex' ? `% ${note}` : `<!-- ${note} -->`;
+}
\ No newline at end of file
@@ -0,0 +1,17 @@
+import { createHash } from 'crypto';
+
+export function createChangeId(ruleId: string, ...scope: string[]): string {
+  const digest = createHash('sha1').update([ruleId, ...scope].join('\u0000')).digest('hex');
+  return `${ruleId}-${digest.slice(0, 8)}`;
+}
+
+export class OccurrenceCounter {
+  private seen = new Map<string, number>();
+
+  next(...parts: string[]): string {
+    const key = parts.join('\u0000');
+    const count = this.seen.get(key) || 0;
+    this.seen.set(key, count + 1);
+    return String(count);
+  }
+}
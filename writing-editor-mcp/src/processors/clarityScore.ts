@@ -0,0 +1,156 @@
+import { ClarityBreakdown, ClarityComponent, ClarityEvidence, DocumentFormat, TextRange, WritingEditorConfig } from '../types';
+import { getJargonTerms, termPattern } from '../vocabulary/packs';
+import { ProtectedText } from './protection';
+import { mapLatexProse } from './latex';
+import { proseSentences } from './sentences';
+import { findPassives } from './passive';
+import { countSyllables, measureReadability } from './readability';
+
+interface ComponentDefinition {
+  id: string;
+  description: string;
+  weight: number;
+  maxPenalty: number;
+  find(text: string, config: WritingEditorConfig): TextRange[];
+}
+
+const WORD = /[\p{L}\d]+(?:['’-][\p{L}\d]+)*/gu;
+const CLAUSE_INDICATORS = /\b(which|that|who|whom|whose|where|when|while|although|because|since|if|unless)\b/gi;
+// Below this many words, rates are taken per 100 words so that a single
+// finding in a short paragraph does not read as dozens per 1,000
+const MIN_WORDS = 100;
+
+const COMPONENTS: ComponentDefinition[] = [
+  {
+    id: 'passive-voice',
+    description: 'Passive voice',
+    weight: 1,
+    maxPenalty: 20,
+    find: text => findPassives(text)
+  },
+  {
+    id: 'long-sentences',
+    description: 'Sentences over the long-sentence threshold',
+    weight: 2,
+    maxPenalty: 20,
+    find: (text, config) => proseSentences(text)
+      .filter(sentence => (sentence.text.match(WORD) || []).length > config.thresholds.longSentenceWords)
+  },
+  {
+    id: 'simplify-language',
+    description: 'Complex words (more than 12 letters or 4 syllables)',
+    weight: 0.25,
+    maxPenalty: 15,
+    find: text => [...text.matchAll(WORD)]
+      .filter(match => isComplexWord(match[0]))
+      .map(match => ({ start: match.index!, end: match.index! + match[0].length }))
+  },
+  {
+    id: 'forbidden-vocabulary',
+    description: 'Jargon and forbidden vocabulary',
+    weight: 1,
+    maxPenalty: 15,
+    find: (text, config) => termMatches(text, getJargonTerms(config.vocabulary))
+  },
+  {
+    id: 'redundancy',
+    description: 'Redundant phrases',
+    weight: 1,
+    maxPenalty: 10,
+    find: (text, config) => termMatches(text, Object.keys(config.vocabulary.redundant))
+  },
+  {
+    id: 'multiple-ideas',
+    description: 'Sentences with more clauses than the configured maximum',
+    weight: 1.5,
+    maxPenalty: 10,
+    find: (text, config) => proseSentences(text)
+      .filter(sentence => countClauses(sentence.text) > config.thresholds.maxClauses)
+  },
+  {
+    id: 'readability',
+    description: 'Sentences above the target Flesch–Kincaid grade',
+    weight: 1,
+    maxPenalty: 10,
+    find: (text, config) => proseSentences(text)
+      .filter(sentence => measureReadability(sentence.text).fleschKincaidGrade > config.thresholds.maxGradeLevel)
+  }
+];
+
+/**
+ * The clarity score, 100 minus one penalty per component. Each penalty is
+ * its number of findings per 1,000 words times its weight, up to a cap, so
+ * the score does not drop with document length alone. Every component lists
+ * the spans that triggered it. Only prose is scored: code, math, citations
+ * and quotations are masked first, and LaTeX markup is dropped.
+ */
+export function scoreClarity(
+  input: string,
+  config: WritingEditorConfig,
+  format: DocumentFormat = 'markdown',
+  isEnabled: (ruleId: string) => boolean = () => true
+): ClarityBreakdown {
+  const { prose, toSourceOffset } = format === 'latex'
+    ? mapLatexProse(input)
+    : { prose: input, toSourceOffset: (offset: number) => offset };
+  const protectedText = ProtectedText.protect(prose, format);
+  const text = protectedText.masked;
+  const words = (text.match(WORD) || []).length;
+  // Offsets map back through the masking, then from LaTeX prose to the source
+  const evidence = (range: TextRange): ClarityEvidence => ({
+    text: protectedText.restore(text.slice(range.start, range.end)),
+    start: toSourceOffset(protectedText.toOriginalOffset(range.start)),
+    end: toSourceOffset(protectedText.toOriginalOffset(range.end))
+  });
+  const per1000 = (count: number) => (count * 1000) / Math.max(words, MIN_WORDS);
+
+  const components = COMPONENTS
+    .filter(component => component.id === 'readability' || isEnabled(component.id))
+    .map((component): ClarityComponent => {
+      const ranges = component.find(text, config);
+      const penalty = Math.min(per1000(ranges.length) * component.weight, component.maxPenalty);
+      const afterFix = Math.min(per1000(Math.max(ranges.length - 1, 0)) * component.weight, component.maxPenalty);
+
+      return {
+        id: component.id,
+        description: component.description,
+        count: ranges.length,
+        per1000Words: round(per1000(ranges.length)),
+        weight: component.weight,
+        maxPenalty: component.maxPenalty,
+        penalty: round(penalty),
+        pointsPerFix: round(penalty - afterFix),
+        evidence: ranges.map(evidence)
+      };
+    });
+
+  const total = components.reduce((sum, component) => sum + component.penalty, 0);
+  return {
+    score: Math.max(0, Math.round(100 - total)),
+    words,
+    components
+  };
+}
+
+export function isComplexWord(word: string): boolean {
+  return word.replace(/[^a-zA-Z]/g, '').length > 12 || countSyllables(word) > 4;
+}
+
+// Subordinating words and relative pronouns, each opening a further clause
+export function countClauses(sentence: string): number {
+  return (sentence.match(CLAUSE_INDICATORS) || []).length;
+}
+
+export function termMatches(text: string, terms: string[]): TextRange[] {
+  return terms
+    .flatMap(term => [...text.matchAll(termPattern(term))].map(match => ({
+      start: match.index!,
+      end: match.index! + match[0].length
+    })))
+    .sort((a, b) => a.start - b.start);
+}
+
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
\ No newline at end of file
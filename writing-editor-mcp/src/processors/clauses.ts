@@ -0,0 +1,156 @@
+import { Term, tagTerms } from './terms';
+
+// How the clause after a break relates to the one before it
+type Relation = 'addition' | 'contrast' | 'result' | 'elaboration';
+
+interface Break {
+  // Index of the last term of the clause before the break
+  last: number;
+  // Index of the first term of the clause after it
+  next: number;
+  relation: Relation;
+}
+
+// Words that join two independent clauses after a comma
+const CONJUNCTIONS: { [word: string]: Relation } = {
+  and: 'addition',
+  but: 'contrast',
+  yet: 'contrast',
+  whereas: 'contrast',
+  while: 'contrast',
+  so: 'result',
+  which: 'elaboration'
+};
+
+// Opens each new sentence; "This" takes the place of "which" as the subject
+const CONNECTIVES: { [relation in Relation]: string } = {
+  addition: '',
+  contrast: 'However,',
+  result: 'As a result,',
+  elaboration: 'This'
+};
+
+// A clause that already opens with one of these needs no further connective
+const ADVERBIAL_CONNECTIVES = new Set([
+  'however', 'therefore', 'thus', 'hence', 'moreover', 'furthermore', 'consequently',
+  'instead', 'meanwhile', 'similarly', 'otherwise', 'nevertheless', 'additionally'
+]);
+
+const SUBJECT_TAGS = ['Noun', 'Pronoun', 'ProperNoun', 'Acronym', 'Value'];
+const NOUN_PHRASE_TAGS = [...SUBJECT_TAGS, 'Determiner', 'Adjective', 'Possessive', 'Adverb', 'Preposition'];
+
+/**
+ * Splits a sentence into one sentence per independent clause. A break is
+ * made only at a semicolon or at a comma followed by a conjunction, and only
+ * where both sides have a subject and a finite verb of their own, so
+ * coordinated noun phrases ("input and output"), lists ("latency, memory,
+ * and energy") and shared subjects ("we train and evaluate") stay whole.
+ * Each new sentence opens with a connective for its relation to the one
+ * before ("but" -> "However,", ", which" -> "This"). Clauses shorter than
+ * `minWords` are not split off. Returns the sentence alone if it has no
+ * break.
+ */
+export function splitClauses(sentence: string, minWords: number = 5): string[] {
+  const terms = tagTerms(sentence);
+  const breaks: Break[] = [];
+  let first = 0;
+
+  candidateBreaks(sentence, terms).forEach(candidate => {
+    const before = terms.slice(first, candidate.last + 1);
+    const after = terms.slice(candidate.next);
+    if (before.length < minWords || after.length < minWords) return;
+    if (!isClause(before, breaks.length > 0 && breaks[breaks.length - 1].relation === 'elaboration')) return;
+    if (!opensClause(after, candidate.relation === 'elaboration')) return;
+
+    breaks.push(candidate);
+    first = candidate.next;
+  });
+
+  if (breaks.length === 0) return [sentence];
+
+  const pieces: string[] = [];
+  let start = 0;
+  let relation: Relation | undefined;
+  breaks.forEach(current => {
+    pieces.push(sentenceOf(sentence.slice(start, clauseEnd(terms[current.last])), relation, true));
+    start = current.relation === 'elaboration' ? terms[current.next].end : terms[current.next].start;
+    relation = current.relation;
+  });
+  pieces.push(sentenceOf(sentence.slice(start), relation, false));
+
+  return pieces;
+}
+
+// Semicolons, and commas followed by a conjunction, outside brackets
+function candidateBreaks(sentence: string, terms: Term[]): Break[] {
+  const candidates: Break[] = [];
+
+  terms.slice(0, -1).forEach((term, index) => {
+    if (depth(sentence.slice(0, term.end)) > 0) return;
+    const following = terms[index + 1];
+
+    if (/^[^\w]*;/.test(term.post)) {
+      candidates.push({ last: index, next: index + 1, relation: 'addition' });
+    } else if (/^[^\w]*,/.test(term.post) && CONJUNCTIONS[following.lower] && index + 2 < terms.length) {
+      const relation = CONJUNCTIONS[following.lower];
+      candidates.push({ last: index, next: relation === 'elaboration' ? index + 1 : index + 2, relation });
+    }
+  });
+
+  return candidates;
+}
+
+function depth(text: string): number {
+  return (text.match(/[([{]/g) || []).length - (text.match(/[)\]}]/g) || []).length;
+}
+
+// A finite verb with a subject before it; after ", which" the pronoun,
+// rewritten to "This", is the subject
+function isClause(terms: Term[], hasSubject: boolean): boolean {
+  let subject = hasSubject;
+  return terms.some(term => {
+    if (subject && isFiniteVerb(term)) return true;
+    if (SUBJECT_TAGS.some(tag => term.tags.has(tag))) subject = true;
+    return false;
+  });
+}
+
+// Starts with its own subject and finite verb: "we compare them", not
+// "energy, and we compare them" or "is an approach". After "which", the
+// verb must come first ("which reduces", not "which we measure").
+function opensClause(terms: Term[], relative: boolean): boolean {
+  let index = relative ? 1 : 0;
+  if (!relative && ADVERBIAL_CONNECTIVES.has(terms[0].lower) && /^[^\w]*,/.test(terms[0].post)) index++;
+
+  let subject = relative ? 1 : 0;
+  for (; index < terms.length; index++) {
+    const term = terms[index];
+    if (subject > 0 && isFiniteVerb(term)) return true;
+    if (term.tags.has('Adverb') || term.tags.has('Negative')) continue;
+    if (relative || !NOUN_PHRASE_TAGS.some(tag => term.tags.has(tag))) return false;
+    if (SUBJECT_TAGS.some(tag => term.tags.has(tag))) subject++;
+    if (/[,;:]/.test(term.post)) return false;
+  }
+  return false;
+}
+
+function isFiniteVerb(term: Term): boolean {
+  if (!term.tags.has('Verb') || term.tags.has('Gerund')) return false;
+  return ['PresentTense', 'PastTense', 'Copula', 'Modal'].some(tag => term.tags.has(tag));
+}
+
+// Just before the comma or semicolon, keeping a closing bracket or quote
+function clauseEnd(term: Term): number {
+  return term.end + term.post.search(/[,;]/);
+}
+
+function sentenceOf(clause: string, relation: Relation | undefined, inner: boolean): string {
+  let text = clause.trim();
+  const connective = relation ? CONNECTIVES[relation] : '';
+  const opensWithConnective = ADVERBIAL_CONNECTIVES.has((text.match(/^\w+/)?.[0] || '').toLowerCase());
+
+  if (connective && !opensWithConnective) text = `${connective} ${text}`;
+  text = text.charAt(0).toUpperCase() + text.slice(1);
+  if (inner || !/[.!?]["'”’)]*$/.test(text)) text = text.replace(/[,;:]$/, '') + '.';
+  return text;
+}
\ No newline at end of file
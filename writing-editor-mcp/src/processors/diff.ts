@@ -0,0 +1,228 @@
+import { DiffOperation } from '../types';
+
+// Words and single punctuation marks, each with the spaces after it, and
+// other runs of whitespace; spaces alone would match across unrelated text
+const TOKEN = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*[ \t]*|\s+|[^\s\p{L}\p{N}][ \t]*/gu;
+// Bounds the search, whose memory grows with the square of the distance
+const MAX_EDIT_DISTANCE = 4000;
+
+/**
+ * Word-level diff of two texts: the edits that turn `before` into `after`,
+ * in order, with unchanged runs as "equal". Whitespace between two changed
+ * words is folded into the change, so "use the tool" -> "apply a tool"
+ * reads as one replacement rather than two. `token` splits the text into the
+ * words compared, e.g. LATEX_TOKEN to keep LaTeX commands whole.
+ */
+export function diffWords(before: string, after: string, token: RegExp = TOKEN): DiffOperation[] {
+  // Lines first, then words within each changed block of lines, which keeps
+  // each word-level search small. Blank lines between changed lines join
+  // one block, so a sentence moved below an inserted paragraph still lines
+  // up with its edited form.
+  const operations: DiffOperation[] = [];
+  const blocks = diffLines(before, after);
+  let region: DiffOperation[] = [];
+  const flush = () => {
+    if (region.some(block => block.type === 'delete') && region.some(block => block.type === 'insert')) {
+      const removed = region.filter(block => block.type !== 'insert').map(block => block.text).join('');
+      const added = region.filter(block => block.type !== 'delete').map(block => block.text).join('');
+      operations.push(...diff(removed.match(token) || [], added.match(token) || []));
+    } else {
+      operations.push(...region);
+    }
+    region = [];
+  };
+  blocks.forEach((block, index) => {
+    const blank = block.type === 'equal' && !block.text.trim();
+    if (block.type !== 'equal' || (blank && region.length > 0 && blocks[index + 1]?.type !== undefined && blocks[index + 1].type !== 'equal')) {
+      region.push(block);
+      return;
+    }
+    flush();
+    operations.push(block);
+  });
+  flush();
+  return foldWhitespace(absorbEqualities(merge(operations)));
+}
+
+/**
+ * Line-level diff; each operation's text is one or more whole lines, each
+ * ending in "\n" except possibly the last line of the text.
+ */
+export function diffLines(before: string, after: string): DiffOperation[] {
+  return diff(lines(before), lines(after));
+}
+
+function lines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+// Myers' O(ND) algorithm over tokens, after trimming the common prefix and
+// suffix. The furthest-reaching path of every edit distance d is kept, as
+// only the 2d + 1 diagonals it reached, to walk the shortest script back.
+// Past MAX_EDIT_DISTANCE the texts have little in common, and the rest is
+// reported as replaced outright.
+function diff(a: string[], b: string[]): DiffOperation[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix && suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const x0 = a.slice(prefix, a.length - suffix);
+  const y0 = b.slice(prefix, b.length - suffix);
+  const n = x0.length;
+  const m = y0.length;
+  const trace: Int32Array[] = [];
+  // Diagonal k of step d is stored at index k + d + 1, so step d - 1 holds
+  // it at k + d
+  let v = new Int32Array(3);
+
+  search: for (let d = 0; d <= n + m; d++) {
+    if (d > MAX_EDIT_DISTANCE) {
+      return merge([
+        { type: 'equal', text: a.slice(0, prefix).join('') },
+        { type: 'delete', text: x0.join('') },
+        { type: 'insert', text: y0.join('') },
+        { type: 'equal', text: a.slice(a.length - suffix).join('') }
+      ]);
+    }
+    const next = new Int32Array(2 * d + 3);
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[k - 1 + d] < v[k + 1 + d])
+        ? v[k + 1 + d]
+        : v[k - 1 + d] + 1;
+      let y = x - k;
+      while (x < n && y < m && x0[x] === y0[y]) {
+        x++;
+        y++;
+      }
+      next[k + d + 1] = x;
+      if (x >= n && y >= m) {
+        trace.push(next);
+        break search;
+      }
+    }
+    trace.push(next);
+    v = next;
+  }
+
+  const operations: DiffOperation[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d - 1];
+    const k = x - y;
+    const fromAbove = k === -d || (k !== d && previous[k - 1 + d] < previous[k + 1 + d]);
+    const previousK = fromAbove ? k + 1 : k - 1;
+    const previousX = previous[previousK + d];
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      y--;
+      push(operations, 'equal', x0[--x]);
+    }
+    if (fromAbove) push(operations, 'insert', y0[--y]);
+    else push(operations, 'delete', x0[--x]);
+  }
+  while (x > 0 && y > 0) {
+    y--;
+    push(operations, 'equal', x0[--x]);
+  }
+
+  operations.reverse();
+  if (prefix > 0) operations.unshift({ type: 'equal', text: a.slice(0, prefix).join('') });
+  if (suffix > 0) operations.push({ type: 'equal', text: a.slice(a.length - suffix).join('') });
+  return merge(operations);
+}
+
+// Operations are collected backwards, so text is prepended
+function push(operations: DiffOperation[], type: DiffOperation['type'], text: string): void {
+  const last = operations[operations.length - 1];
+  if (last && last.type === type) last.text = text + last.text;
+  else operations.push({ type, text });
+}
+
+function merge(operations: DiffOperation[]): DiffOperation[] {
+  return operations.reduce<DiffOperation[]>((merged, operation) => {
+    const last = merged[merged.length - 1];
+    if (!operation.text) return merged;
+    if (last && last.type === operation.type) last.text += operation.text;
+    else merged.push({ ...operation });
+    return merged;
+  }, []);
+}
+
+// A single unchanged word no longer than the changes on either side of it,
+// such as "the" between two rewritten phrases, is a chance match and reads
+// better as part of the change. Words before a line break are kept.
+function absorbEqualities(operations: DiffOperation[]): DiffOperation[] {
+  const absorbed: DiffOperation[] = [];
+  const changed = (from: number, step: number) => {
+    const length = { delete: 0, insert: 0 };
+    for (let i = from; i >= 0 && i < operations.length && operations[i].type !== 'equal'; i += step) {
+      length[operations[i].type as 'delete' | 'insert'] += operations[i].text.length;
+    }
+    return Math.max(length.delete, length.insert);
+  };
+  let before = 0;
+
+  operations.forEach((operation, index) => {
+    if (operation.type !== 'equal') {
+      absorbed.push(operation);
+      before += operation.text.length;
+      return;
+    }
+    const after = changed(index + 1, 1);
+    const words = operation.text.match(/[\p{L}\p{N}]+/gu) || [];
+    if (
+      before > 0 && after > 0 && words.length <= 1 && !operation.text.includes('\n') &&
+      operation.text.length <= Math.min(before, after)
+    ) {
+      absorbed.push({ type: 'delete', text: operation.text }, { type: 'insert', text: operation.text });
+      before += operation.text.length;
+      return;
+    }
+    absorbed.push(operation);
+    before = 0;
+  });
+
+  return merge(absorbed);
+}
+
+function foldWhitespace(operations: DiffOperation[]): DiffOperation[] {
+  const folded: DiffOperation[] = [];
+
+  operations.forEach((operation, index) => {
+    const before = operations[index - 1];
+    const after = operations[index + 1];
+    if (operation.type === 'equal' && /^[ \t]+$/.test(operation.text) && before && after && before.type !== 'equal' && after.type !== 'equal') {
+      folded.push({ type: 'delete', text: operation.text }, { type: 'insert', text: operation.text });
+      return;
+    }
+    folded.push(operation);
+  });
+
+  // Group each changed run as all its deletions, then all its insertions
+  const grouped: DiffOperation[] = [];
+  let run: DiffOperation[] = [];
+  const flush = () => {
+    grouped.push(
+      { type: 'delete', text: run.filter(op => op.type === 'delete').map(op => op.text).join('') },
+      { type: 'insert', text: run.filter(op => op.type === 'insert').map(op => op.text).join('') }
+    );
+    run = [];
+  };
+  folded.forEach(operation => {
+    if (operation.type === 'equal') {
+      if (run.length > 0) flush();
+      grouped.push(operation);
+    } else {
+      run.push(operation);
+    }
+  });
+  if (run.length > 0) flush();
+
+  return merge(grouped);
+}
\ No newline at end of file
@@ -1,143 +1,333 @@
-import { ProcessedDocument, Section, Change, DocumentMetrics } from '../types';
+import {
+  ProcessedDocument,
+  Section,
+  Change,
+  ChangeLocation,
+  ClarityBreakdown,
+  DocumentMetrics,
+  Diagnostic,
+  DocumentFormat,
+  Rule,
+  RuleSelection,
+  SpanEdit,
+  TextRange,
+  WritingEditorConfig
+} from '../types';
 import { ClarityRules } from '../rules/clarity.rules';
 import { StyleRules } from '../rules/style.rules';
 import { StructureRules } from '../rules/structure.rules';
+import { RuleRegistry, createRuleRegistry } from '../rules/registry';
+import { DEFAULT_CONFIG } from '../config';
+import { diffSpan, getTextPosition } from './textSpans';
+import { OccurrenceCounter, createChangeId } from './changeIds';
+import { ProtectedText } from './protection';
+import { serializeRange } from './markdown';
+import { locateSections, parseDocument } from './sections';
+import { segmentSentences, splitSentences } from './sentences';
+import { findPassives } from './passive';
+import { findMeaningRisks } from './safety';
+import { countWords, measureReadability } from './readability';
+import { scoreClarity } from './clarityScore';
+import { latexProse } from './latex';
 
 export class DocumentProcessor {
   private clarityRules: ClarityRules;
   private styleRules: StyleRules;
   private structureRules: StructureRules;
+  private registry: RuleRegistry;
+  private selection: RuleSelection;
+  private sentenceRules = new Map<string, Rule[]>();
+  private config: WritingEditorConfig;
+  private format: DocumentFormat;
+
+  constructor(
+    selection: RuleSelection = {},
+    config: WritingEditorConfig = DEFAULT_CONFIG,
+    format: DocumentFormat = 'markdown'
+  ) {
+    this.config = config;
+    this.format = format;
+    this.clarityRules = new ClarityRules(config);
+    this.styleRules = new StyleRules(config);
+    this.structureRules = new StructureRules(config, format);
+    this.registry = createRuleRegistry(this.clarityRules, this.styleRules, this.structureRules);
+    this.selection = selection;
+    // Fail on unknown rule ids up front rather than at the first matching section
+    this.registry.resolve({
+      ...selection,
+      disabledRules: [
+        ...(selection.disabledRules || []),
+        ...Object.values(selection.sectionDisabledRules || {}).flat()
+      ]
+    });
+  }
 
-  constructor() {
-    this.clarityRules = new ClarityRules();
-    this.styleRules = new StyleRules();
-    this.structureRules = new StructureRules();
+  isRuleEnabled(id: string): boolean {
+    return this.registry.isEnabled(id, this.selection);
   }
 
   async processDocument(
     text: string,
-    type: 'full_paper' | 'section' | 'paragraph' | 'abstract'
+    type: 'full_paper' | 'section' | 'paragraph' | 'abstract',
+    acceptChange?: (id: string) => boolean
   ): Promise<ProcessedDocument> {
     this.clearAllChanges();
 
-    const sections = type === 'full_paper'
-      ? this.extractSections(text)
-      : [{ title: 'Content', content: text }];
+    const model = parseDocument(text, this.format, type);
+    const occurrences = new OccurrenceCounter();
+    const suggestedChanges: Change[] = [];
 
     const processed = await Promise.all(
-      sections.map(async section => {
-        const sentences = this.splitIntoSentences(section.content);
-        const editedSentences = await Promise.all(
-          sentences.map(s => this.processSentence(s))
+      locateSections(model, type).map(async ({ body, spans, ...section }) => {
+        const results = await Promise.all(
+          spans.map(span => this.processSpan(text, span, section.title, occurrences, acceptChange))
         );
-
-        const edited = editedSentences.join(' ');
-        const changes = this.collectChanges();
+        suggestedChanges.push(...results.flatMap(r => r.suggested));
 
         return {
           ...section,
           original: section.content,
-          edited: edited,
-          changes: changes
+          edited: serializeRange(text, body, results.map((r, i) => ({ ...spans[i], text: r.edited }))),
+          changes: results.flatMap(r => r.changes)
         };
       })
     );
 
+    const outline = this.buildOutline(processed);
+    processed.forEach(section => {
+      const subtree = flattenSection(section);
+      section.metrics = this.calculateMetrics(
+        subtree.map(s => s.original).join('\n\n'),
+        subtree.map(s => s.edited).join('\n\n')
+      );
+    });
+
     const allChanges = processed.flatMap(s => s.changes || []);
-    const metrics = this.calculateMetrics(text, processed);
+    suggestedChanges.sort((a, b) => a.location!.start! - b.location!.start!);
+    // Section bodies on both sides, so headings count in neither
+    const metrics = this.calculateMetrics(
+      processed.map(s => s.original).join('\n\n'),
+      processed.map(s => s.edited).join('\n\n')
+    );
     const trackingDocument = this.generateTrackingMarkdown(processed, allChanges);
 
     return {
       type,
       sections: processed,
+      outline,
       metrics,
       trackingDocument,
       changes: allChanges,
-      suggestions: this.generateSuggestions(metrics, allChanges)
+      suggestedChanges,
+      suggestions: this.generateSuggestions(metrics, allChanges, suggestedChanges)
     };
   }
 
-  private async processSentence(sentence: string): Promise<string> {
-    if (!sentence.trim()) return sentence;
-
-    let edited = sentence;
+  async diagnoseDocument(
+    text: string,
+    type: 'full_paper' | 'section' | 'paragraph' | 'abstract'
+  ): Promise<Diagnostic[]> {
+    this.clearAllChanges();
 
-    edited = this.clarityRules.fixPassiveVoice(edited);
-    edited = this.clarityRules.simplifyLanguage(edited);
-    edited = this.styleRules.cleanVocabulary(edited);
-    edited = this.styleRules.fixTense(edited);
-    edited = this.styleRules.removeRedundancy(edited);
-    edited = this.styleRules.enforceActiveWriting(edited);
-    edited = this.styleRules.removeParentheticals(edited);
-
-    const splits = this.clarityRules.separateMultipleIdeas(edited);
-    if (splits.length > 1) {
-      return splits.join(' ');
-    }
+    const model = parseDocument(text, this.format, type);
+    const diagnostics: Diagnostic[] = [];
+    const occurrences = new OccurrenceCounter();
+
+    locateSections(model, type).forEach(section => {
+      section.spans.forEach(span => {
+        const protectedText = ProtectedText.protect(text.slice(span.start, span.end), this.format);
+
+        segmentSentences(protectedText.masked).forEach(sentence => {
+          const original = protectedText.restore(sentence.text);
+          const occurrence = occurrences.next(section.title, original);
+
+          this.rulesFor(section.title).forEach(rule => {
+            const result = rule.apply(sentence.text);
+            const recorded = this.collectChanges();
+            const findings: { change: Change; edit: SpanEdit; risks?: string[] }[] = recorded
+              .filter(isFlag)
+              .map(change => ({ change, edit: change.edit! }));
+            const change = recorded.filter(c => !isFlag(c)).pop();
+            if (change && result !== sentence.text) {
+              const risks = findMeaningRisks(original, protectedText.restore(result), this.config.vocabulary);
+              findings.push({ change, edit: diffSpan(sentence.text, result), ...(risks.length > 0 ? { risks } : {}) });
+            }
+
+            findings.forEach(({ change, edit, risks }) => {
+              const start = span.start + protectedText.toOriginalOffset(sentence.start + edit.start);
+              const end = span.start + protectedText.toOriginalOffset(sentence.start + edit.end);
+              const position = getTextPosition(text, start);
+
+              diagnostics.push({
+                id: createChangeId(rule.id, section.title, original, occurrence),
+                ruleId: rule.id,
+                rule: change.rule,
+                type: change.type,
+                reason: change.reason,
+                original: text.slice(start, end),
+                replacement: protectedText.restore(edit.text),
+                location: {
+                  start,
+                  end,
+                  line: position.line,
+                  column: position.column,
+                  paragraph: position.paragraph,
+                  section: section.title
+                },
+                ...(risks ? { risks } : {})
+              });
+            });
+          });
+        });
+      });
+    });
 
-    return edited;
+    return diagnostics;
   }
 
-  private extractSections(text: string): Section[] {
-    const sections: Section[] = [];
-    const lines = text.split('\n');
-    let currentSection: Section | null = null;
-    let contentLines: string[] = [];
+  private async processSpan(
+    text: string,
+    span: TextRange,
+    title: string,
+    occurrences: OccurrenceCounter,
+    acceptChange?: (id: string) => boolean
+  ): Promise<{ edited: string; changes: Change[]; suggested: Change[] }> {
+    const protectedText = ProtectedText.protect(text.slice(span.start, span.end), this.format);
+    const masked = protectedText.masked;
+    const changes: Change[] = [];
+    const suggested: Change[] = [];
+    let edited = '';
+    let cursor = 0;
+
+    for (const sentence of segmentSentences(masked)) {
+      const original = protectedText.restore(sentence.text);
+      const start = span.start + protectedText.toOriginalOffset(sentence.start);
+      const position = getTextPosition(text, start);
+
+      const result = await this.processSentence(sentence.text, this.rulesFor(title), {
+        scope: [title, original, occurrences.next(title, original)],
+        location: {
+          start,
+          end: start + original.length,
+          line: position.line,
+          column: position.column,
+          paragraph: position.paragraph,
+          section: title
+        },
+        restore: masked => protectedText.restore(masked)
+      }, acceptChange);
+
+      edited += masked.slice(cursor, sentence.start) + result.edited;
+      cursor = sentence.start + sentence.text.length;
+      changes.push(...result.changes.map(change => this.restoreChange(change, protectedText)));
+      suggested.push(...result.suggested.map(change => this.restoreChange(change, protectedText)));
+    }
 
-    const sectionPattern = /^#+\s+(.+)$/;
-    const numberedPattern = /^(?:\d+\.?\s+)?([A-Z][^.!?]*?)$/;
+    edited += masked.slice(cursor);
+    return { edited: protectedText.restore(edited), changes, suggested };
+  }
 
-    for (const line of lines) {
-      const sectionMatch = line.match(sectionPattern);
-      const numberedMatch = line.match(numberedPattern);
+  private async processSentence(
+    sentence: string,
+    rules: Rule[],
+    context: { scope: string[]; location: ChangeLocation; restore: (text: string) => string },
+    acceptChange?: (id: string) => boolean
+  ): Promise<{ edited: string; changes: Change[]; suggested: Change[] }> {
+    const changes: Change[] = [];
+    const suggested: Change[] = [];
+    if (!sentence.trim()) return { edited: sentence, changes, suggested };
 
-      if (sectionMatch || numberedMatch) {
-        if (currentSection && contentLines.length > 0) {
-          currentSection.content = contentLines.join('\n').trim();
-          sections.push(currentSection);
-        }
+    let edited = sentence;
 
-        const title = sectionMatch ? sectionMatch[1] : numberedMatch![1];
-        currentSection = { title, content: '' };
-        contentLines = [];
-      } else {
-        contentLines.push(line);
-      }
+    for (const rule of rules) {
+      const result = rule.apply(edited);
+      const recorded = this.collectChanges();
+
+      // A rule that records nothing must not alter the text (e.g. by
+      // normalizing whitespace the source relies on).
+      if (recorded.length === 0) continue;
+
+      const id = createChangeId(rule.id, ...context.scope);
+      if (acceptChange && !acceptChange(id)) continue;
+
+      // Edits that may change the meaning are only suggested, unless the
+      // caller accepted this change id explicitly
+      const risks = acceptChange ? [] : findMeaningRisks(context.restore(edited), context.restore(result), this.config.vocabulary);
+
+      recorded.forEach(change => {
+        const rejected = risks.length > 0 && !isFlag(change);
+        (rejected ? suggested : changes).push({
+          ...change,
+          id,
+          ruleId: rule.id,
+          edit: isFlag(change) ? change.edit : diffSpan(change.before, change.after),
+          location: context.location,
+          ...(rejected ? { risks } : {})
+        });
+      });
+      if (risks.length === 0) edited = result;
     }
 
-    if (currentSection && contentLines.length > 0) {
-      currentSection.content = contentLines.join('\n').trim();
-      sections.push(currentSection);
-    }
+    return { edited, changes, suggested };
+  }
 
-    if (sections.length === 0 && text.trim()) {
-      sections.push({
-        title: 'Document',
-        content: text.trim()
-      });
+  // Sentence rules for a section, minus those its title disables through
+  // `sectionDisabledRules` (e.g. tense in "Future Work")
+  private rulesFor(title: string): Rule[] {
+    let rules = this.sentenceRules.get(title);
+    if (!rules) {
+      const sectionDisabled = Object.entries(this.selection.sectionDisabledRules || {})
+        .filter(([section]) => title.toLowerCase().includes(section.toLowerCase()))
+        .flatMap(([, ids]) => ids);
+      rules = this.registry.resolve({
+        ...this.selection,
+        disabledRules: [...(this.selection.disabledRules || []), ...sectionDisabled]
+      }, 'sentence');
+      this.sentenceRules.set(title, rules);
     }
-
-    return sections;
+    return rules;
   }
 
-  private splitIntoSentences(text: string): string[] {
-    if (!text) return [];
+  private restoreChange(change: Change, protectedText: ProtectedText): Change {
+    const before = protectedText.restore(change.before);
+    const after = protectedText.restore(change.after);
+    if (isFlag(change)) {
+      const { start, end } = change.edit!;
+      const edit = {
+        start: protectedText.restore(change.before.slice(0, start)).length,
+        end: protectedText.restore(change.before.slice(0, end)).length,
+        text: protectedText.restore(change.before.slice(start, end))
+      };
+      return { ...change, before, after, edit };
+    }
+    return { ...change, before, after, edit: diffSpan(before, after) };
+  }
 
-    const sentencePattern = /[^.!?]+[.!?]+/g;
-    const sentences = text.match(sentencePattern) || [];
+  // Nests each section under the closest preceding section of lower depth.
+  // Sections without a heading (e.g. text before the first one) stay at the
+  // top level and never take children.
+  private buildOutline(sections: Section[]): Section[] {
+    const roots: Section[] = [];
+    const open: Section[] = [];
+
+    sections.forEach(section => {
+      if (section.depth === undefined) {
+        roots.push(section);
+        return;
+      }
 
-    const processedSentences: string[] = [];
-    sentences.forEach(sentence => {
-      const trimmed = sentence.trim();
-      if (trimmed.split(/\s+/).length > 25) {
-        const result = this.clarityRules.splitLongSentences(trimmed);
-        processedSentences.push(result);
+      while (open.length > 0 && open[open.length - 1].depth! >= section.depth) open.pop();
+      const parent = open[open.length - 1];
+      if (parent) {
+        section.parent = parent.title;
+        parent.children = [...(parent.children || []), section];
       } else {
-        processedSentences.push(trimmed);
+        roots.push(section);
       }
+      open.push(section);
     });
 
-    return processedSentences;
+    return roots;
   }
 
   private collectChanges(): Change[] {
@@ -157,22 +347,24 @@ export class DocumentProcessor {
     this.structureRules.clearChanges();
   }
 
-  private calculateMetrics(original: string, processed: Section[]): DocumentMetrics {
-    const editedText = processed.map(s => s.edited || s.content).join(' ');
-    const originalWords = original.split(/\s+/).length;
-    const editedWords = editedText.split(/\s+/).length;
+  private calculateMetrics(original: string, editedText: string): DocumentMetrics {
+    // Measured on prose only, so LaTeX markup does not count as words
+    const prose = (text: string) => (this.format === 'latex' ? latexProse(text) : text);
+    const originalWords = countWords(prose(original));
+    const editedWords = countWords(prose(editedText));
 
-    const passiveVoiceCount = (original.match(/(?:was|were|been|being|is|are|am)\s+\w+ed/gi) || []).length;
+    const passiveVoiceCount = findPassives(original).length;
     const longSentenceCount = this.countLongSentences(original);
 
     const clarityScore = this.calculateClarityScore(editedText);
-    const readabilityBefore = this.calculateReadability(original);
-    const readabilityAfter = this.calculateReadability(editedText);
+    const readabilityBefore = measureReadability(prose(original));
+    const readabilityAfter = measureReadability(prose(editedText));
 
     return {
       clarity: clarityScore,
       wordReduction: originalWords - editedWords,
-      readabilityGain: readabilityAfter - readabilityBefore,
+      readabilityGain: readabilityAfter.fleschReadingEase - readabilityBefore.fleschReadingEase,
+      readability: { original: readabilityBefore, edited: readabilityAfter },
       sentenceComplexity: this.calculateComplexity(editedText),
       passiveVoiceCount: passiveVoiceCount,
       longSentenceCount: longSentenceCount
@@ -180,65 +372,21 @@ export class DocumentProcessor {
   }
 
   private countLongSentences(text: string): number {
-    const sentences = text.match(/[^.!?]+[.!?]+/g) || [];
-    return sentences.filter(s => s.trim().split(/\s+/).length > 25).length;
+    const sentences = splitSentences(text);
+    return sentences.filter(s => s.trim().split(/\s+/).length > this.config.thresholds.longSentenceWords).length;
   }
 
-  private calculateClarityScore(text: string): number {
-    const sentences = text.match(/[^.!?]+[.!?]+/g) || [];
-    if (sentences.length === 0) return 0;
-
-    let score = 100;
-
-    const avgWordCount = sentences.reduce((sum, s) =>
-      sum + s.trim().split(/\s+/).length, 0) / sentences.length;
-
-    if (avgWordCount > 20) score -= 10;
-    if (avgWordCount > 25) score -= 10;
-
-    const passiveCount = (text.match(/(?:was|were|been|being|is|are|am)\s+\w+ed/gi) || []).length;
-    score -= passiveCount * 2;
-
-    const complexWords = text.match(/\b\w{10,}\b/g) || [];
-    score -= Math.min(complexWords.length, 20);
-
-    return Math.max(0, score);
+  // Shared with check_clarity_metrics, so both report the same score
+  calculateClarityScore(text: string): number {
+    return this.scoreClarity(text).score;
   }
 
-  private calculateReadability(text: string): number {
-    const sentences = text.match(/[^.!?]+[.!?]+/g) || [];
-    const words = text.split(/\s+/);
-    const syllables = words.reduce((sum, word) => sum + this.countSyllables(word), 0);
-
-    if (sentences.length === 0 || words.length === 0) return 0;
-
-    const fleschScore = 206.835 - 1.015 * (words.length / sentences.length) -
-                       84.6 * (syllables / words.length);
-
-    return Math.max(0, Math.min(100, fleschScore));
-  }
-
-  private countSyllables(word: string): number {
-    word = word.toLowerCase();
-    let count = 0;
-    let previousWasVowel = false;
-
-    for (let i = 0; i < word.length; i++) {
-      const isVowel = /[aeiou]/.test(word[i]);
-      if (isVowel && !previousWasVowel) {
-        count++;
-      }
-      previousWasVowel = isVowel;
-    }
-
-    if (word.endsWith('e')) count--;
-    if (count === 0) count = 1;
-
-    return count;
+  scoreClarity(text: string): ClarityBreakdown {
+    return scoreClarity(text, this.config, this.format, id => this.isRuleEnabled(id));
   }
 
   private calculateComplexity(text: string): number {
-    const sentences = text.match(/[^.!?]+[.!?]+/g) || [];
+    const sentences = splitSentences(text);
     if (sentences.length === 0) return 0;
 
     const avgClauses = sentences.reduce((sum, s) => {
@@ -285,7 +433,7 @@ export class DocumentProcessor {
     return markdown;
   }
 
-  private generateSuggestions(metrics: DocumentMetrics, changes: Change[]): string[] {
+  private generateSuggestions(metrics: DocumentMetrics, changes: Change[], suggested: Change[]): string[] {
     const suggestions: string[] = [];
 
     if (metrics.passiveVoiceCount > 0) {
@@ -310,6 +458,22 @@ export class DocumentProcessor {
       suggestions.push(`Applied ${count} ${type} improvements`);
     });
 
+    suggested.forEach(change => {
+      suggestions.push(
+        `Consider "${change.before}" -> "${change.after}" (not applied: ${change.risks!.join('; ')}; accept ${change.id} with apply_changes to apply it)`
+      );
+    });
+
     return suggestions;
   }
+}
+
+function flattenSection(section: Section): Section[] {
+  return [section, ...(section.children || []).flatMap(flattenSection)];
+}
+
+// A finding the rule cannot fix itself: the text is unchanged and `edit`
+// marks the span it refers to.
+function isFlag(change: Change): boolean {
+  return change.before === change.after && !!change.edit;
 }
\ No newline at end of file
@@ -0,0 +1,74 @@
+export interface HeadingText {
+  title: string;
+  number?: string;
+}
+
+export interface PlainHeading extends HeadingText {
+  depth: number;
+  confidence: number;
+}
+
+// Plain lines scoring below this are treated as ordinary text
+export const HEADING_CONFIDENCE_THRESHOLD = 0.5;
+
+const NUMBERING = /^(\d+(?:\.\d+)*)\.?\s+(.+)$/;
+const MAX_HEADING_WORDS = 12;
+
+const SECTION_NAMES = [
+  'abstract', 'introduction', 'overview', 'background', 'motivation', 'related work',
+  'method', 'methods', 'methodology', 'approach', 'technical approach', 'design',
+  'implementation', 'experiments', 'experimental setup', 'evaluation', 'results',
+  'discussion', 'limitations', 'future work', 'conclusion', 'conclusions', 'summary',
+  'acknowledgments', 'acknowledgements', 'references', 'bibliography', 'appendix'
+];
+
+const MINOR_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'nor', 'for', 'of', 'in', 'on', 'at',
+  'to', 'by', 'with', 'from', 'as', 'via', 'vs', 'into', 'over'
+]);
+
+export function splitNumbering(text: string): HeadingText {
+  const numbered = text.match(NUMBERING);
+  return numbered ? { title: numbered[2], number: numbered[1] } : { title: text };
+}
+
+/**
+ * Scores a line of plain text as a heading. Explicit markup (`#`, setext
+ * underlines, `\section`) needs no scoring; this is for papers pasted as
+ * plain text. Numbering, ALL CAPS, Title Case, well-known section names and
+ * standing alone raise the score; length and sentence punctuation lower it,
+ * so short sentences such as "It works" are rejected.
+ */
+export function detectPlainHeading(line: string, standalone: boolean): PlainHeading | undefined {
+  const text = line.trim();
+  if (!text || /[.!?,;]$/.test(text) || !/^[\dA-Z]/.test(text)) return undefined;
+
+  const { title, number } = splitNumbering(text.replace(/:$/, ''));
+  const words = title.split(/\s+/);
+  if (!/^[A-Z]/.test(title) || words.length > MAX_HEADING_WORDS) return undefined;
+
+  let confidence = 0;
+  if (number) confidence += 0.4;
+  if (/[A-Z]{2}/.test(title) && title === title.toUpperCase()) confidence += 0.4;
+  if (SECTION_NAMES.includes(title.toLowerCase())) confidence += 0.4;
+  if (isTitleCase(words)) confidence += 0.2;
+  if (words.length <= 8) confidence += 0.1;
+  confidence += standalone ? 0.2 : -0.2;
+  if (text.endsWith(':')) confidence -= 0.2;
+
+  confidence = Math.round(Math.min(1, Math.max(0, confidence)) * 100) / 100;
+  if (confidence < HEADING_CONFIDENCE_THRESHOLD) return undefined;
+
+  return {
+    title,
+    number,
+    depth: number ? number.split('.').length : 1,
+    confidence
+  };
+}
+
+function isTitleCase(words: string[]): boolean {
+  return words.every((word, index) =>
+    /^[^a-z]/.test(word) || (index > 0 && MINOR_WORDS.has(word.toLowerCase()))
+  );
+}
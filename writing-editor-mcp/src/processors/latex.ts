@@ -0,0 +1,276 @@
+import { DocumentBlock, DocumentModel, TextRange } from '../types';
+import { Line, splitLines, trimRange } from './markdown';
+
+const SECTIONING = ['section', 'subsection', 'subsubsection', 'paragraph', 'subparagraph'];
+// Levels numbered by the standard classes (secnumdepth 3)
+const NUMBERED_DEPTH = 3;
+
+const HEADING = /^\s*\\(section|subsection|subsubsection|paragraph|subparagraph)(\*?)\s*(?:\[[^\]]*\]\s*)?\{/;
+const BEGIN = /^\s*\\begin\{([a-zA-Z]+\*?)\}/;
+const END = /^\s*\\end\{([a-zA-Z]+\*?)\}/;
+const ITEM = /^\s*\\item\b\s*(?:\[[^\]]*\]\s*)?/;
+const COMMENT = /^\s*%/;
+const DISPLAY_MATH = /^\s*(\\\[|\$\$)/;
+const COMMAND_LINE = /^\s*(?:\\[a-zA-Z@]+\*?(?:\s*\[[^\]]*\]|\s*\{(?:[^{}]|\{[^{}]*\})*\})*\s*)+(?:%.*)?$/;
+const INLINE_COMMENT = /(?<!\\)%/;
+
+// Diff tokens of LaTeX source: commands with their arguments, math, escapes
+// and comments are single tokens, so a word diff never splits them; words
+// carry their spaces as in the plain-text tokens
+export const LATEX_TOKEN = /\\[a-zA-Z@]+\*?(?:\[[^\]\n]*\])*(?:\{(?:[^{}]|\{[^{}]*\})*\})*|\$\$[\s\S]+?\$\$|\\\[[\s\S]+?\\\]|\\\([\s\S]+?\\\)|\$[^$\n]+\$|\\[^a-zA-Z]|%[^\n]*|[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*[ \t]*|\s+|[^\s\p{L}\p{N}][ \t]*/gu;
+
+const MATH_ENVIRONMENTS = ['equation', 'align', 'alignat', 'flalign', 'gather', 'multline', 'eqnarray', 'displaymath', 'math'];
+const VERBATIM_ENVIRONMENTS = ['verbatim', 'Verbatim', 'lstlisting', 'minted', 'comment'];
+const PROSE_ENVIRONMENTS = ['itemize', 'enumerate', 'description', 'quote', 'quotation', 'center', 'flushleft', 'flushright'];
+
+/**
+ * Parses LaTeX source into the same block model as Markdown. Prose is exposed
+ * as spans; the preamble, comments, math, floats and other environments are
+ * opaque blocks the rules never see.
+ */
+export function parseLatex(source: string): DocumentModel {
+  const lines = splitLines(source);
+  const blocks: DocumentBlock[] = [];
+  const counters = new Array(SECTIONING.length).fill(0);
+  let documentEnd: number | undefined;
+  let i = 0;
+
+  const documentStart = lines.findIndex(line => /^\s*\\begin\{document\}/.test(line.text));
+  if (documentStart >= 0) {
+    blocks.push(opaque('front_matter', lines[0], lines[documentStart]));
+    i = documentStart + 1;
+  }
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.text.trim()) {
+      i++;
+      continue;
+    }
+
+    if (COMMENT.test(line.text)) {
+      let j = i;
+      while (j + 1 < lines.length && COMMENT.test(lines[j + 1].text)) j++;
+      blocks.push(opaque('comment', line, lines[j]));
+      i = j + 1;
+      continue;
+    }
+
+    const heading = line.text.match(HEADING);
+    if (heading) {
+      const open = line.start + heading[0].length - 1;
+      const close = matchBrace(source, open);
+      const j = lineAt(lines, i, close);
+      const depth = SECTIONING.indexOf(heading[1]) + 1;
+      const numbered = !heading[2] && depth <= NUMBERED_DEPTH;
+      if (numbered) {
+        counters[depth - 1]++;
+        counters.fill(0, depth);
+      }
+      blocks.push({
+        type: 'heading',
+        start: line.start,
+        end: lines[j].end,
+        depth,
+        number: numbered ? counters.slice(0, depth).join('.') : undefined,
+        title: source.slice(open + 1, close).replace(/\s+/g, ' ').trim(),
+        confidence: 1,
+        spans: []
+      });
+      i = j + 1;
+      continue;
+    }
+
+    const begin = line.text.match(BEGIN);
+    if (begin) {
+      const name = begin[1];
+      const base = name.replace(/\*$/, '');
+
+      if (name === 'abstract') {
+        blocks.push({ type: 'heading', start: line.start, end: line.end, depth: 1, title: 'Abstract', confidence: 1, spans: [] });
+        i++;
+        continue;
+      }
+      if (PROSE_ENVIRONMENTS.includes(name)) {
+        blocks.push(opaque('command', line, line));
+        i++;
+        continue;
+      }
+
+      const j = findEnd(lines, i, name);
+      const type = MATH_ENVIRONMENTS.includes(base) ? 'math'
+        : VERBATIM_ENVIRONMENTS.includes(base) ? 'code'
+        : 'environment';
+      blocks.push(opaque(type, line, lines[j]));
+      i = j + 1;
+      continue;
+    }
+
+    const end = line.text.match(END);
+    if (end) {
+      if (end[1] === 'document') {
+        documentEnd = line.start;
+        blocks.push(opaque('section_end', line, lines[lines.length - 1]));
+        break;
+      }
+      blocks.push(opaque(end[1] === 'abstract' ? 'section_end' : 'command', line, line));
+      i++;
+      continue;
+    }
+
+    const math = line.text.match(DISPLAY_MATH);
+    if (math) {
+      const closer = math[1] === '$$' ? '$$' : '\\]';
+      const rest = line.text.slice(line.text.indexOf(math[1]) + math[1].length);
+      let j = i;
+      if (!rest.includes(closer)) {
+        j = i + 1;
+        while (j < lines.length && !lines[j].text.includes(closer)) j++;
+      }
+      blocks.push(opaque('math', line, lines[Math.min(j, lines.length - 1)]));
+      i = j + 1;
+      continue;
+    }
+
+    const item = line.text.match(ITEM);
+    if (item) {
+      const j = endOfParagraph(lines, i);
+      blocks.push({
+        type: 'list_item',
+        start: line.start,
+        end: lines[j].end,
+        spans: proseSpans(source, lines, i, j, line.start + item[0].length)
+      });
+      i = j + 1;
+      continue;
+    }
+
+    if (COMMAND_LINE.test(line.text)) {
+      blocks.push(opaque('command', line, line));
+      i++;
+      continue;
+    }
+
+    const j = endOfParagraph(lines, i);
+    blocks.push({
+      type: 'paragraph',
+      start: line.start,
+      end: lines[j].end,
+      spans: proseSpans(source, lines, i, j, line.start)
+    });
+    i = j + 1;
+  }
+
+  return { format: 'latex', source, blocks, documentEnd };
+}
+
+export function latexHeading(title: string, depth: number = 1): string {
+  const command = SECTIONING[Math.min(Math.max(depth, 1), SECTIONING.length) - 1];
+  return `\\${command}{${title}}`;
+}
+
+/**
+ * The prose of a LaTeX document with markup removed, one paragraph per
+ * span, for tools that only measure the text.
+ */
+export function latexProse(source: string): string {
+  return mapLatexProse(source).prose;
+}
+
+/**
+ * The prose as latexProse returns it, with a map from offsets into it back
+ * to the source, so findings in the prose can point at the source.
+ */
+export function mapLatexProse(source: string): { prose: string; toSourceOffset: (offset: number) => number } {
+  const spans = parseLatex(source).blocks.flatMap(block => block.spans);
+  const starts: number[] = [];
+  let prose = '';
+  spans.forEach((span, index) => {
+    if (index > 0) prose += '\n\n';
+    starts.push(prose.length);
+    prose += source.slice(span.start, span.end);
+  });
+
+  const toSourceOffset = (offset: number) => {
+    let index = starts.length - 1;
+    while (index > 0 && starts[index] > offset) index--;
+    if (index < 0) return offset;
+    const span = spans[index];
+    return span.start + Math.min(Math.max(offset - starts[index], 0), span.end - span.start);
+  };
+  return { prose, toSourceOffset };
+}
+
+function startsBlock(text: string): boolean {
+  return COMMENT.test(text) ||
+    HEADING.test(text) ||
+    BEGIN.test(text) ||
+    END.test(text) ||
+    ITEM.test(text) ||
+    DISPLAY_MATH.test(text) ||
+    COMMAND_LINE.test(text);
+}
+
+function endOfParagraph(lines: Line[], from: number): number {
+  let j = from;
+  while (j + 1 < lines.length && lines[j + 1].text.trim() && !startsBlock(lines[j + 1].text)) j++;
+  return j;
+}
+
+function findEnd(lines: Line[], from: number, name: string): number {
+  const begin = `\\begin{${name}}`;
+  const end = `\\end{${name}}`;
+  let depth = 0;
+
+  for (let j = from; j < lines.length; j++) {
+    depth += lines[j].text.split(begin).length - 1;
+    depth -= lines[j].text.split(end).length - 1;
+    if (depth <= 0) return j;
+  }
+  return lines.length - 1;
+}
+
+// Inline comments end a span; the prose resumes on the next line.
+function proseSpans(source: string, lines: Line[], from: number, to: number, contentStart: number): TextRange[] {
+  const spans: TextRange[] = [];
+  let spanStart = contentStart;
+
+  for (let k = from; k <= to; k++) {
+    const offset = k === from ? contentStart - lines[k].start : 0;
+    const comment = lines[k].text.slice(offset).search(INLINE_COMMENT);
+    if (comment === -1) continue;
+
+    const commentStart = lines[k].start + offset + comment;
+    spans.push(trimRange(spanStart, commentStart, source.slice(spanStart, commentStart)));
+    spanStart = k < to ? lines[k + 1].start : lines[k].end;
+  }
+
+  const last = lines[to].end;
+  spans.push(trimRange(spanStart, last, source.slice(spanStart, last)));
+  return spans.filter(span => span.end > span.start);
+}
+
+function matchBrace(source: string, open: number): number {
+  let depth = 0;
+  for (let k = open; k < source.length; k++) {
+    if (source[k] === '\\') {
+      k++;
+    } else if (source[k] === '{') {
+      depth++;
+    } else if (source[k] === '}' && --depth === 0) {
+      return k;
+    }
+  }
+  return source.length;
+}
+
+function lineAt(lines: Line[], from: number, offset: number): number {
+  let j = from;
+  while (j + 1 < lines.length && lines[j].end < offset) j++;
+  return j;
+}
+
+function opaque(type: DocumentBlock['type'], first: Line, last: Line): DocumentBlock {
+  return { type, start: first.start, end: last.end, spans: [] };
+}
@@ -0,0 +1,261 @@
+import { DocumentBlock, DocumentModel, TextRange } from '../types';
+import { detectPlainHeading, splitNumbering } from './headings';
+
+export interface Line {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface MarkdownOptions {
+  // Detect headings in plain-text papers without `#` markers (numbered,
+  // ALL CAPS or Title Case lines), see detectPlainHeading.
+  plainHeadings?: boolean;
+}
+
+const FENCE = /^( {0,3})(`{3,}|~{3,})/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+const HTML_BLOCK = /^ {0,3}<(?:\/?[a-zA-Z][\w-]*|!--)/;
+const MATH_FENCE = /^\s*\$\$/;
+const BLOCKQUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^(\s*)(?:[-*+]|\d{1,9}[.)])[ \t]+(?:\[[ xX]\][ \t]+)?/;
+const INDENTED_CODE = /^(?: {4}|\t)/;
+
+export function parseMarkdown(source: string, options: MarkdownOptions = {}): DocumentModel {
+  const lines = splitLines(source);
+  const blocks: DocumentBlock[] = [];
+  let i = 0;
+
+  if (lines.length > 0 && lines[0].text === '---') {
+    const close = lines.findIndex((line, idx) => idx > 0 && /^(---|\.\.\.)$/.test(line.text));
+    if (close > 0) {
+      blocks.push(opaque('front_matter', lines[0], lines[close]));
+      i = close + 1;
+    }
+  }
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.text.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.text.match(FENCE);
+    if (fence) {
+      const marker = fence[2];
+      let j = i + 1;
+      while (j < lines.length && !lines[j].text.trimStart().startsWith(marker)) j++;
+      const last = lines[Math.min(j, lines.length - 1)];
+      blocks.push(opaque('code', line, last));
+      i = j + 1;
+      continue;
+    }
+
+    const heading = line.text.match(ATX_HEADING);
+    if (heading) {
+      blocks.push(headingBlock(line.start, line.end, heading[1].length, (heading[2] || '').trim()));
+      i++;
+      continue;
+    }
+
+    if (THEMATIC_BREAK.test(line.text)) {
+      blocks.push(opaque('thematic_break', line, line));
+      i++;
+      continue;
+    }
+
+    if (MATH_FENCE.test(line.text)) {
+      let j = i;
+      if ((line.text.match(/\$\$/g) || []).length < 2) {
+        j = i + 1;
+        while (j < lines.length && !lines[j].text.includes('$$')) j++;
+      }
+      blocks.push(opaque('math', line, lines[Math.min(j, lines.length - 1)]));
+      i = j + 1;
+      continue;
+    }
+
+    if (HTML_BLOCK.test(line.text)) {
+      const j = endOfRun(lines, i);
+      blocks.push(opaque('html', line, lines[j]));
+      i = j + 1;
+      continue;
+    }
+
+    if (line.text.includes('|') && i + 1 < lines.length && TABLE_DELIMITER.test(lines[i + 1].text)) {
+      const j = endOfRun(lines, i);
+      blocks.push(opaque('table', line, lines[j]));
+      i = j + 1;
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line.text)) {
+      let j = i;
+      const spans: TextRange[] = [];
+      while (j < lines.length && BLOCKQUOTE.test(lines[j].text)) {
+        const prefix = lines[j].text.match(BLOCKQUOTE)![0].length;
+        if (lines[j].text.slice(prefix).trim()) {
+          spans.push(trimRange(lines[j].start + prefix, lines[j].end, lines[j].text.slice(prefix)));
+        }
+        j++;
+      }
+      blocks.push({ type: 'blockquote', start: line.start, end: lines[j - 1].end, spans });
+      i = j;
+      continue;
+    }
+
+    const listItem = line.text.match(LIST_ITEM);
+    if (listItem) {
+      const indent = listItem[1].length;
+      let j = i + 1;
+      while (
+        j < lines.length &&
+        lines[j].text.trim() &&
+        !startsBlock(lines[j].text) &&
+        !(LIST_ITEM.test(lines[j].text))
+      ) {
+        j++;
+      }
+      const contentStart = line.start + listItem[0].length;
+      blocks.push({
+        type: 'list_item',
+        start: line.start,
+        end: lines[j - 1].end,
+        depth: Math.floor(indent / 2) + 1,
+        spans: [trimRange(contentStart, lines[j - 1].end, source.slice(contentStart, lines[j - 1].end))]
+      });
+      i = j;
+      continue;
+    }
+
+    if (INDENTED_CODE.test(line.text)) {
+      let j = i;
+      while (j + 1 < lines.length && (INDENTED_CODE.test(lines[j + 1].text) || !lines[j + 1].text.trim())) j++;
+      while (j > i && !lines[j].text.trim()) j--;
+      blocks.push(opaque('code', line, lines[j]));
+      i = j + 1;
+      continue;
+    }
+
+    let j = i;
+    while (j + 1 < lines.length && lines[j + 1].text.trim() && !startsBlock(lines[j + 1].text)) {
+      if (SETEXT_UNDERLINE.test(lines[j + 1].text)) break;
+      j++;
+    }
+
+    if (j + 1 < lines.length && SETEXT_UNDERLINE.test(lines[j + 1].text) && lines[j + 1].text.trim()) {
+      const underline = lines[j + 1];
+      blocks.push(headingBlock(
+        line.start,
+        underline.end,
+        underline.text.trim().startsWith('=') ? 1 : 2,
+        source.slice(line.start, lines[j].end).replace(/\s+/g, ' ').trim()
+      ));
+      i = j + 2;
+      continue;
+    }
+
+    const standalone = i + 1 >= lines.length || !lines[i + 1].text.trim();
+    const plain = options.plainHeadings ? detectPlainHeading(line.text, standalone) : undefined;
+    if (plain) {
+      blocks.push({
+        type: 'heading',
+        start: line.start,
+        end: line.end,
+        depth: plain.depth,
+        number: plain.number,
+        title: plain.title,
+        confidence: plain.confidence,
+        spans: []
+      });
+      i++;
+      continue;
+    }
+
+    blocks.push({
+      type: 'paragraph',
+      start: line.start,
+      end: lines[j].end,
+      spans: [trimRange(line.start, lines[j].end, source.slice(line.start, lines[j].end))]
+    });
+    i = j + 1;
+  }
+
+  return { format: 'markdown', source, blocks };
+}
+
+/**
+ * Rebuilds `source.slice(range.start, range.end)` with the given span edits
+ * applied. Text outside the edited spans is copied byte-for-byte.
+ */
+export function serializeRange(
+  source: string,
+  range: TextRange,
+  edits: { start: number; end: number; text: string }[]
+): string {
+  let output = '';
+  let cursor = range.start;
+
+  [...edits]
+    .filter(edit => edit.start >= range.start && edit.end <= range.end)
+    .sort((a, b) => a.start - b.start)
+    .forEach(edit => {
+      output += source.slice(cursor, edit.start) + edit.text;
+      cursor = edit.end;
+    });
+
+  return output + source.slice(cursor, range.end);
+}
+
+export function splitLines(source: string): Line[] {
+  const lines: Line[] = [];
+  let start = 0;
+
+  source.split('\n').forEach(raw => {
+    const text = raw.endsWith('\r') ? raw.slice(0, -1) : raw;
+    lines.push({ text, start, end: start + text.length });
+    start += raw.length + 1;
+  });
+
+  return lines;
+}
+
+function startsBlock(text: string): boolean {
+  return FENCE.test(text) ||
+    ATX_HEADING.test(text) ||
+    THEMATIC_BREAK.test(text) ||
+    BLOCKQUOTE.test(text) ||
+    HTML_BLOCK.test(text) ||
+    MATH_FENCE.test(text) ||
+    (LIST_ITEM.test(text) && !/^\s*\d/.test(text));
+}
+
+function endOfRun(lines: Line[], from: number): number {
+  let j = from;
+  while (j + 1 < lines.length && lines[j + 1].text.trim()) j++;
+  return j;
+}
+
+// Leading section numbers are kept apart from the title
+function headingBlock(start: number, end: number, depth: number, text: string): DocumentBlock {
+  return { type: 'heading', start, end, depth, ...splitNumbering(text), confidence: 1, spans: [] };
+}
+
+function opaque(type: DocumentBlock['type'], first: Line, last: Line): DocumentBlock {
+  return { type, start: first.start, end: last.end, spans: [] };
+}
+
+export function trimRange(start: number, end: number, text: string): TextRange {
+  const leading = text.length - text.trimStart().length;
+  const trailing = text.length - text.trimEnd().length;
+  return { start: start + leading, end: Math.max(start + leading, end - trailing) };
+}
+
+export function markdownHeading(title: string, depth: number = 1): string {
+  return `${'#'.repeat(Math.min(Math.max(depth, 1), 6))} ${title}`;
+}
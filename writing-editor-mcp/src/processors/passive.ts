@@ -0,0 +1,305 @@
+import { TextRange } from '../types';
+import { GrammaticalPerson, Term, conjugate, grammaticalPerson, isPastParticiple, tagTerms } from './terms';
+import { isProtectedChar } from './protection';
+
+export interface PassiveClause extends TextRange {
+  // The passive verb phrase, e.g. "has been collected"
+  text: string;
+  agent?: string;
+}
+
+interface PassiveMatch {
+  auxiliaries: Term[];
+  modifiers: Term[];
+  verb: number;
+  first: number;
+  agent?: { by: number; last: number; start: number; end: number };
+}
+
+const BE_FORMS = new Set(['am', 'is', 'are', 'was', 'were', 'be', 'been', 'being']);
+const HAVE_FORMS = new Set(['has', 'have', 'had']);
+const MODALS = new Set(['will', 'would', 'shall', 'should', 'can', 'could', 'may', 'might', 'must']);
+const RELATIVE_PRONOUNS = new Set(['that', 'which', 'who', 'whom', 'whose']);
+const SUBJECT_PRONOUN_WORDS = new Set(['i', 'we', 'he', 'she', 'they', 'you']);
+// Compromise tags some of these as adjectives ("over two years")
+const PREPOSITIONS = new Set([
+  'about', 'across', 'after', 'against', 'along', 'among', 'around', 'at', 'before', 'behind', 'below',
+  'beside', 'between', 'beyond', 'despite', 'during', 'for', 'from', 'in', 'inside', 'into', 'near',
+  'on', 'onto', 'over', 'per', 'since', 'through', 'throughout', 'to', 'toward', 'towards', 'under',
+  'until', 'upon', 'using', 'via', 'with', 'within', 'without'
+]);
+
+// "by hand", "by default": the object of "by" is a means, not an actor
+const NON_AGENTS = new Set([
+  'hand', 'default', 'design', 'definition', 'construction', 'far', 'chance',
+  'accident', 'mistake', 'contrast', 'comparison', 'way', 'means', 'now', 'then'
+]);
+
+const NOUN_PHRASE_TAGS = ['Noun', 'Pronoun', 'Determiner', 'Adjective', 'Possessive', 'Value', 'Acronym', 'ProperNoun'];
+
+const SUBJECT_PRONOUNS: { [object: string]: string } = {
+  me: 'I', us: 'we', him: 'he', her: 'she', them: 'they', you: 'you', it: 'it'
+};
+const OBJECT_PRONOUNS: { [subject: string]: string } = {
+  i: 'me', we: 'us', he: 'him', she: 'her', they: 'them', you: 'you', it: 'it'
+};
+
+/**
+ * Finds passive verb phrases using part-of-speech tags: a form of "be"
+ * (optionally after a modal or "has/have/had") followed by a past participle.
+ * Covers present, past, perfect, progressive and modal passives, with or
+ * without an agent ("The model was trained.", "It was done.").
+ */
+export function findPassives(text: string): PassiveClause[] {
+  const terms = tagTerms(text);
+  return matchPassives(terms).map(match => {
+    const start = terms[match.first].start;
+    const end = terms[match.verb].end;
+    return {
+      start,
+      end,
+      text: text.slice(start, end),
+      agent: match.agent ? text.slice(match.agent.start, match.agent.end) : undefined
+    };
+  });
+}
+
+/**
+ * Rewrites the first passive with a named agent in active voice, moving the
+ * full subject and agent noun phrases and conjugating the verb to the agent
+ * ("The data has been collected by them" -> "They have collected the data").
+ * Returns undefined when no passive can be rewritten safely.
+ */
+export function toActiveVoice(sentence: string): string | undefined {
+  const terms = tagTerms(sentence);
+
+  for (const match of matchPassives(terms)) {
+    if (!match.agent) continue;
+
+    const subject = findSubject(terms, match.first);
+    if (!subject) continue;
+
+    const verbPhrase = conjugateActive(terms, match, match.agent);
+    if (!verbPhrase) continue;
+
+    const prefix = sentence.slice(0, terms[subject.first].start);
+    const subjectText = sentence.slice(terms[subject.first].start, terms[match.first - 1].end);
+    const middle = sentence.slice(terms[match.verb].end, terms[match.agent.by].start).trim();
+    const agentText = sentence.slice(match.agent.start, match.agent.end);
+    const tail = sentence.slice(match.agent.end);
+
+    // "It was shown by Smith that ...": the real object is the clause
+    if (/^it$/i.test(subjectText) && /^\s*(that|to)\b/i.test(tail)) continue;
+    // "by Smith et al.": the period would be left behind mid-sentence
+    if (terms[match.agent.last].tags.has('Abbreviation')) continue;
+    // A verb right after the agent belongs to another clause the agent was
+    // cut from, and moving the agent would leave it without a subject. A
+    // relative clause ("by the children who were hungry") or a conjunction
+    // after a citation ("by Smith [3] and Jones") belongs to the agent.
+    const after = terms.filter(term => term.start >= match.agent!.end);
+    const rest = after.filter(term => !isPlaceholder(term));
+    const cited = after.length > 0 && isPlaceholder(after[0]);
+    const conjunction = ['and', 'or'].includes(rest[0]?.lower);
+    if (RELATIVE_PRONOUNS.has(rest[0]?.lower) || (cited && conjunction)) continue;
+    const next = conjunction ? rest[1] : rest[0];
+    if (next && !/^\s*[,;:.!?]/.test(tail) && next.tags.has('Verb')) continue;
+
+    const atStart = prefix.trim() === '';
+    const agent = asSubject(agentText, atStart);
+    const object = asObject(subjectText, terms[subject.first], atStart);
+
+    return prefix + [agent, verbPhrase, object, middle].filter(Boolean).join(' ') + tail;
+  }
+
+  return undefined;
+}
+
+function matchPassives(terms: Term[]): PassiveMatch[] {
+  const matches: PassiveMatch[] = [];
+
+  terms.forEach((term, index) => {
+    // Compromise tags a participle that ends the sentence as an adjective
+    // ("The model was trained."); those are checked once a "be" is found
+    const tagged = isParticiple(term);
+    if (!tagged && !term.tags.has('Adjective')) return;
+
+    let cursor = index - 1;
+    const modifiers: Term[] = [];
+    while (cursor >= 0 && (terms[cursor].tags.has('Adverb') || terms[cursor].tags.has('Negative'))) {
+      modifiers.unshift(terms[cursor]);
+      cursor--;
+    }
+    if (cursor < 0 || !BE_FORMS.has(terms[cursor].lower) || terms[cursor].post.trim()) return;
+    if (!tagged && !isPastParticiple(term.lower)) return;
+
+    const auxiliaries = [terms[cursor]];
+    while (
+      cursor > 0 &&
+      !terms[cursor - 1].post.trim() &&
+      (BE_FORMS.has(terms[cursor - 1].lower) || HAVE_FORMS.has(terms[cursor - 1].lower) || MODALS.has(terms[cursor - 1].lower))
+    ) {
+      cursor--;
+      auxiliaries.unshift(terms[cursor]);
+    }
+
+    matches.push({ auxiliaries, modifiers, verb: index, first: cursor, agent: findAgent(terms, index) });
+  });
+
+  return matches;
+}
+
+function isParticiple(term: Term): boolean {
+  return term.tags.has('Passive') && !term.tags.has('Auxiliary') ||
+    term.tags.has('Verb') && (term.tags.has('PastTense') || term.tags.has('Participle'));
+}
+
+// The noun phrase after the first "by" following the verb, up to punctuation,
+// a protected span, a preposition other than "of", or the next word that
+// cannot be part of a noun phrase. "and"/"or" join the phrase unless a clause of its own follows
+// ("by the team and we use ...").
+function findAgent(terms: Term[], verb: number): PassiveMatch['agent'] {
+  let by = verb + 1;
+  while (by < terms.length && terms[by].lower !== 'by') {
+    if (terms[by - 1].post.trim() || terms[by].tags.has('Verb')) return undefined;
+    by++;
+  }
+  if (by >= terms.length || terms[by].post.trim()) return undefined;
+
+  let last = by;
+  for (let k = by + 1; k < terms.length; k++) {
+    if (isPlaceholder(terms[k])) break;
+    const conjunction = terms[k].lower === 'and' || terms[k].lower === 'or';
+    if (conjunction && startsClause(terms, k + 1)) break;
+    const connector = conjunction || terms[k].lower === 'of';
+    if (!connector && !NOUN_PHRASE_TAGS.some(tag => terms[k].tags.has(tag))) break;
+    if (terms[k].tags.has('Verb') || RELATIVE_PRONOUNS.has(terms[k].lower)) break;
+    if (terms[k].lower !== 'of' && (terms[k].tags.has('Preposition') || PREPOSITIONS.has(terms[k].lower))) break;
+    last = k;
+    if (terms[k].post.trim()) break;
+  }
+  while (last > by && ['and', 'or', 'of'].includes(terms[last].lower)) last--;
+
+  const agentTerms = terms.slice(by + 1, last + 1);
+  const isNounPhrase = agentTerms.some(term => term.tags.has('Noun') || term.tags.has('Pronoun'));
+  if (!isNounPhrase || (agentTerms.length === 1 && NON_AGENTS.has(agentTerms[0].lower))) return undefined;
+
+  // The end of the word itself, without any punctuation tagged onto it
+  const word = terms[last].text.replace(/[.,;:!?]+$/, '');
+  return { by, last, start: terms[by + 1].start, end: Math.min(terms[last].end, terms[last].start + word.length) };
+}
+
+// A masked citation, code span or other protected text
+function isPlaceholder(term: Term): boolean {
+  return [...term.text].some(isProtectedChar);
+}
+
+// A subject pronoun, or a noun phrase followed by a verb
+function startsClause(terms: Term[], from: number): boolean {
+  if (from >= terms.length) return false;
+  if (SUBJECT_PRONOUN_WORDS.has(terms[from].lower)) return true;
+  let k = from;
+  while (
+    k < terms.length && !terms[k].tags.has('Verb') && !PREPOSITIONS.has(terms[k].lower) &&
+    NOUN_PHRASE_TAGS.some(tag => terms[k].tags.has(tag))
+  ) {
+    if (terms[k].post.trim()) return false;
+    k++;
+  }
+  return k > from && k < terms.length && terms[k].tags.has('Verb');
+}
+
+// The noun phrase directly before the auxiliaries, including "of" and "and"
+// phrases ("the results of the experiment"). A determiner opens the phrase
+// unless "of" or "and" precedes it. Relative clauses are left alone.
+function findSubject(terms: Term[], auxiliary: number): { first: number } | undefined {
+  let first = auxiliary;
+  let afterVerb = false;
+
+  for (let k = auxiliary - 1; k >= 0; k--) {
+    const term = terms[k];
+    if (term.post.trim()) break;
+    if (RELATIVE_PRONOUNS.has(term.lower) && k === auxiliary - 1) return undefined;
+
+    const connector = term.lower === 'of' || term.lower === 'and';
+    const nounLike = NOUN_PHRASE_TAGS.some(tag => term.tags.has(tag)) && !term.tags.has('Verb');
+    if (!nounLike && !connector) {
+      afterVerb = term.tags.has('Verb');
+      break;
+    }
+    first = k;
+
+    const opensPhrase = term.tags.has('Determiner') || term.tags.has('Possessive');
+    if (opensPhrase && k > 0 && !['of', 'and'].includes(terms[k - 1].lower)) {
+      afterVerb = terms[k - 1].tags.has('Verb') && !terms[k - 1].post.trim();
+      break;
+    }
+  }
+
+  // "We trained the model and the weights were saved": only "the weights"
+  // belongs to this clause
+  if (afterVerb) {
+    const and = terms.slice(first, auxiliary).map(term => term.lower).lastIndexOf('and');
+    if (and >= 0) first += and + 1;
+  }
+  while (first < auxiliary && ['of', 'and'].includes(terms[first].lower)) first++;
+
+  const subject = terms.slice(first, auxiliary);
+  if (!subject.some(term => term.tags.has('Noun') || term.tags.has('Pronoun'))) return undefined;
+  return { first };
+}
+
+function conjugateActive(terms: Term[], match: PassiveMatch, agent: NonNullable<PassiveMatch['agent']>): string | undefined {
+  const forms = conjugate(terms[match.verb].text);
+  if (!forms) return undefined;
+
+  const participle = forms.Participle || forms.PastTense;
+  const auxiliaries = match.auxiliaries.map(term => term.lower);
+  const negated = match.modifiers.some(term => term.tags.has('Negative'));
+  const adverbs = match.modifiers.filter(term => !term.tags.has('Negative')).map(term => term.text);
+  const person = grammaticalPerson(terms.slice(agent.by + 1).filter(term => term.start < agent.end));
+
+  const [head, ...rest] = auxiliaries;
+  let words: string[];
+
+  if (MODALS.has(head) && rest[0] === 'be') {
+    words = [head, ...(negated ? ['not'] : []), ...adverbs, forms.Infinitive];
+  } else if (MODALS.has(head) && rest[0] === 'have' && rest[1] === 'been') {
+    words = [head, ...(negated ? ['not'] : []), 'have', ...adverbs, participle];
+  } else if (HAVE_FORMS.has(head) && rest[0] === 'been') {
+    const have = head === 'had' ? 'had' : person === 'third-singular' ? 'has' : 'have';
+    words = [have, ...(negated ? ['not'] : []), ...adverbs, participle];
+  } else if (BE_FORMS.has(head) && rest[0] === 'being') {
+    const be = beForm(head === 'was' || head === 'were' ? 'past' : 'present', person);
+    words = [be, ...(negated ? ['not'] : []), ...adverbs, forms.Gerund];
+  } else if (rest.length === 0 && ['am', 'is', 'are'].includes(head)) {
+    words = negated
+      ? [person === 'third-singular' ? 'does' : 'do', 'not', ...adverbs, forms.Infinitive]
+      : [...adverbs, person === 'third-singular' ? forms.PresentTense : forms.Infinitive];
+  } else if (rest.length === 0 && ['was', 'were'].includes(head)) {
+    words = negated ? ['did', 'not', ...adverbs, forms.Infinitive] : [...adverbs, forms.PastTense];
+  } else {
+    return undefined;
+  }
+
+  return words.join(' ');
+}
+
+function beForm(tense: 'past' | 'present', person: GrammaticalPerson): string {
+  if (tense === 'past') return person === 'plural' ? 'were' : 'was';
+  if (person === 'first-singular') return 'am';
+  return person === 'plural' ? 'are' : 'is';
+}
+
+function asSubject(agent: string, atStart: boolean): string {
+  const pronoun = SUBJECT_PRONOUNS[agent.toLowerCase()];
+  const subject = pronoun ?? agent;
+  return atStart ? subject.charAt(0).toUpperCase() + subject.slice(1) : subject;
+}
+
+function asObject(subject: string, first: Term, atStart: boolean): string {
+  const pronoun = OBJECT_PRONOUNS[subject.toLowerCase()];
+  if (pronoun) return pronoun;
+
+  const keepCase = first.tags.has('ProperNoun') || first.tags.has('Acronym') || /^[A-Z]{2,}/.test(first.text);
+  return atStart && !keepCase ? subject.charAt(0).toLowerCase() + subject.slice(1) : subject;
+}
@@ -0,0 +1,134 @@
+import { DocumentFormat } from '../types';
+
+export type ProtectedKind = 'code' | 'math' | 'link' | 'url' | 'citation' | 'quotation' | 'call' | 'command';
+
+interface ProtectedSegment {
+  kind: ProtectedKind;
+  original: string;
+  placeholder: string;
+  maskedStart: number;
+}
+
+const MATH_PATTERNS: { kind: ProtectedKind; pattern: RegExp }[] = [
+  { kind: 'math', pattern: /\$\$[\s\S]+?\$\$/g },
+  { kind: 'math', pattern: /\\\[[\s\S]+?\\\]/g },
+  { kind: 'math', pattern: /\\\([\s\S]+?\\\)/g },
+  { kind: 'math', pattern: /\$[^$\n]+\$/g }
+];
+
+const PROTECTED_PATTERNS: { kind: ProtectedKind; pattern: RegExp }[] = [
+  { kind: 'code', pattern: /^(```|~~~)[^\n]*\n[\s\S]*?\n\1[^\n]*$/gm },
+  { kind: 'code', pattern: /`[^`\n]+`/g },
+  ...MATH_PATTERNS,
+  { kind: 'link', pattern: /!?\[[^\]\n]*\]\((?:[^()\n]|\([^()\n]*\))*\)/g },
+  { kind: 'url', pattern: /<(?:https?:\/\/|www\.|mailto:)[^\s<>]+>/g },
+  // Balanced parentheses belong to the URL ("wiki/Set_(mathematics)"), an
+  // unmatched closing one to the text around it
+  { kind: 'url', pattern: /\b(?:https?:\/\/|www\.)(?:[^\s<>()\]]|\([^\s<>()]*\))*(?:[^\s<>()\].,;:!?'"]|\([^\s<>()]*\))/g },
+  { kind: 'citation', pattern: /\\cite[a-zA-Z]*\*?(?:\[[^\]]*\])*\{[^}]*\}/g },
+  { kind: 'citation', pattern: /\[@[^\]\n]+\]/g },
+  { kind: 'citation', pattern: /\[\d+(?:\s*[,–-]\s*\d+)*\]/g },
+  { kind: 'quotation', pattern: /"[^"\n]+"|“[^”\n]+”/g },
+  { kind: 'call', pattern: /\b[A-Za-z_][\w.]*\([^()\s][^()\n]*\)/g }
+];
+
+// Checked before the shared patterns so escapes like `\$` are not read as
+// math, and `\cite`, `\ref` and friends are claimed whole, arguments included.
+const LATEX_PATTERNS: { kind: ProtectedKind; pattern: RegExp }[] = [
+  { kind: 'command', pattern: /\\[%&_#${}~^\\,;! ]/g },
+  { kind: 'code', pattern: /\\verb\*?([^a-zA-Z\s]).*?\1/g },
+  ...MATH_PATTERNS,
+  { kind: 'citation', pattern: /\\cite[a-zA-Z]*\*?(?:\[[^\]]*\])*\{[^}]*\}/g },
+  { kind: 'command', pattern: /\\[a-zA-Z@]+\*?(?:\[[^\]\n]*\])*(?:\{(?:[^{}]|\{[^{}]*\})*\})*/g },
+  { kind: 'quotation', pattern: /``[^`'\n]+''/g }
+];
+
+const OPEN = '\uE000';
+const CLOSE = '\uE001';
+const DIGIT_BASE = 0xE100;
+
+/**
+ * Masks spans that rules must never rewrite (code, math, URLs, citations,
+ * quotations, LaTeX commands) with placeholders made of private-use
+ * characters. Placeholders contain no word characters or sentence
+ * punctuation, so the rules treat them as opaque tokens.
+ */
+export class ProtectedText {
+  readonly masked: string;
+  private segments: ProtectedSegment[];
+
+  private constructor(masked: string, segments: ProtectedSegment[]) {
+    this.masked = masked;
+    this.segments = segments;
+  }
+
+  static protect(text: string, format: DocumentFormat = 'markdown'): ProtectedText {
+    const ranges: { start: number; end: number; kind: ProtectedKind }[] = [];
+    const patterns = format === 'latex' ? [...LATEX_PATTERNS, ...PROTECTED_PATTERNS] : PROTECTED_PATTERNS;
+
+    patterns.forEach(({ kind, pattern }) => {
+      for (const match of text.matchAll(pattern)) {
+        const start = match.index!;
+        const end = start + match[0].length;
+        if (!ranges.some(r => start < r.end && end > r.start)) {
+          ranges.push({ start, end, kind });
+        }
+      }
+    });
+    ranges.sort((a, b) => a.start - b.start);
+
+    const segments: ProtectedSegment[] = [];
+    let masked = '';
+    let cursor = 0;
+
+    ranges.forEach((range, index) => {
+      masked += text.slice(cursor, range.start);
+      const placeholder = createPlaceholder(index);
+      segments.push({
+        kind: range.kind,
+        original: text.slice(range.start, range.end),
+        placeholder,
+        maskedStart: masked.length
+      });
+      masked += placeholder;
+      cursor = range.end;
+    });
+    masked += text.slice(cursor);
+
+    return new ProtectedText(masked, segments);
+  }
+
+  restore(text: string): string {
+    if (this.segments.length === 0) return text;
+    const byPlaceholder = new Map(this.segments.map(s => [s.placeholder, s.original]));
+    return text.replace(
+      new RegExp(`${OPEN}[^${OPEN}${CLOSE}]+${CLOSE}`, 'g'),
+      placeholder => byPlaceholder.get(placeholder) ?? placeholder
+    );
+  }
+
+  toOriginalOffset(offset: number): number {
+    let shift = 0;
+    for (const segment of this.segments) {
+      if (segment.maskedStart >= offset) break;
+      const maskedEnd = segment.maskedStart + segment.placeholder.length;
+      shift += offset >= maskedEnd
+        ? segment.original.length - segment.placeholder.length
+        : 0;
+    }
+    return offset + shift;
+  }
+}
+
+export function isProtectedChar(char: string): boolean {
+  return char >= OPEN && char <= String.fromCharCode(DIGIT_BASE + 0xff);
+}
+
+function createPlaceholder(index: number): string {
+  let digits = '';
+  do {
+    digits = String.fromCharCode(DIGIT_BASE + (index % 256)) + digits;
+    index = Math.floor(index / 256);
+  } while (index > 0);
+  return `${OPEN}${digits}${CLOSE}`;
+}
@@ -0,0 +1,93 @@
+import { Change, DocumentFormat, TextRange } from '../types';
+import { diffWords } from './diff';
+import { LATEX_TOKEN } from './latex';
+
+// One run of changed words; offsets are into the original text
+export interface Revision extends TextRange {
+  deleted: string;
+  inserted: string;
+  // "Rule: reason" of each change that made it
+  reasons: string[];
+}
+
+// A finding that changes nothing, e.g. a passive without an actor
+export interface Highlight extends TextRange {
+  reason: string;
+}
+
+/**
+ * Compares the original and edited text word by word and attributes each
+ * run of changed words to the changes that made it, so every edit can be
+ * shown with its reasons. Sentence edits are matched by where their edit
+ * falls in the sentence, structure edits by the lines they add. Findings that change
+ * nothing become highlights of the text they refer to. In LaTeX, commands,
+ * math and comments are compared whole, so a revision never splits one.
+ */
+export function findRevisions(
+  original: string,
+  edited: string,
+  changes: Change[],
+  format: DocumentFormat = 'markdown'
+): { revisions: Revision[]; highlights: Highlight[] } {
+  const revisions: Revision[] = [];
+  const equal: TextRange[] = [];
+  let offset = 0;
+  let changed = false;
+
+  // Each run of changes between unchanged text becomes one revision
+  diffWords(original, edited, format === 'latex' ? LATEX_TOKEN : undefined).forEach(operation => {
+    if (operation.type === 'equal') {
+      equal.push({ start: offset, end: offset + operation.text.length });
+      offset += operation.text.length;
+      changed = false;
+      return;
+    }
+    if (!changed) revisions.push({ start: offset, end: offset, deleted: '', inserted: '', reasons: [] });
+    changed = true;
+    const revision = revisions[revisions.length - 1];
+    if (operation.type === 'delete') {
+      revision.deleted += operation.text;
+      revision.end += operation.text.length;
+      offset += operation.text.length;
+    } else {
+      revision.inserted += operation.text;
+    }
+  });
+
+  const highlights: Highlight[] = [];
+  changes.forEach(change => {
+    const reason = `${change.rule}: ${change.reason}`;
+    const location = change.location;
+
+    if (change.before === change.after) {
+      if (location?.start === undefined || !change.edit) return;
+      const start = location.start + change.edit.start;
+      const end = location.start + change.edit.end;
+      if (end > start && equal.some(range => range.start <= start && end <= range.end)) {
+        highlights.push({ start, end, reason });
+      }
+      return;
+    }
+
+    let matched: Revision[];
+    if (location?.start !== undefined) {
+      // The revisions of this sentence that the edit overlaps, else the one
+      // nearest to it
+      const inSentence = revisions.filter(r => r.start >= location.start! && r.start < location.end!);
+      const start = location.start + (change.edit?.start ?? 0);
+      const end = location.start + (change.edit?.end ?? change.before.length);
+      const overlapping = inSentence.filter(r => r.start <= end && r.end >= start);
+      const nearest = inSentence.reduce<Revision | undefined>((best, r) =>
+        !best || Math.abs(r.start - start) < Math.abs(best.start - start) ? r : best, undefined);
+      matched = overlapping.length > 0 ? overlapping : nearest ? [nearest] : [];
+    } else {
+      const added = change.after.split('\n').map(line => line.trim()).filter(line => line && !change.before.includes(line));
+      matched = revisions.filter(r => added.some(line => r.inserted.includes(line))).slice(0, 1);
+    }
+    matched.forEach(revision => {
+      if (!revision.reasons.includes(reason)) revision.reasons.push(reason);
+    });
+  });
+
+  return { revisions, highlights: highlights.sort((a, b) => a.start - b.start) };
+}
\ No newline at end of file
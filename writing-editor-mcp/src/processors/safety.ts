@@ -0,0 +1,133 @@
+import { VocabularyPack } from '../types';
+import { segmentSentences } from './sentences';
+import { tagTerms } from './terms';
+
+const NEGATION = /\b(?:not|no|never|none|nobody|nothing|nor|neither|without|cannot)\b|n't\b/gi;
+const NUMBER = /(?<![\w.])[-+]?\d+(?:[.,]\d+)*(?:\.\d+)?/g;
+const QUANTITY = /(?<![\w.])\d+(?:\.\d+)?\s*(%|×|x\b|°[CF]?|[kMGT]?(?:Hz|B|bps|FLOPs?)\b|(?:[nµm]?s|ms|min|h|hrs?|days?|[kcm]?m|[km]?g|[kM]?W|V|A|K|px|pt|dB|ppm)\b)/g;
+const SINGULAR_SUBJECTS = new Set(['this', 'that', 'it', 'he', 'she']);
+const STRANDED_PUNCTUATION = /[,;:]\s*[,;:.]/g;
+const DANGLING_WORD = /\b(?:about|at|by|for|from|in|into|of|on|than|to|with|within|without|and|or|the|a|an)\s*[,;:.!?]/gi;
+const DOUBLED_WORD = /\b([a-z]+)(?:\s*,)?\s+\1\b/gi;
+const CITATION = /\\cite[a-zA-Z]*\*?(?:\[[^\]]*\])*\{[^}]*\}|\[@[^\]\n]+\]|\[\d+(?:\s*[,–-]\s*\d+)*\]|\([A-Z][A-Za-z'-]+(?: et al\.?| and [A-Z][A-Za-z'-]+)?,? \d{4}[a-z]?\)/g;
+
+/**
+ * Compares a sentence before and after an automatic edit and lists the ways
+ * the edit may change its meaning: negations, numbers, units, names or
+ * citations that disappear; punctuation, a preposition or conjunction left
+ * stranded; a doubled word; or a sentence left without a verb. Names in the
+ * vocabulary (forbidden terms, replacements and their targets) may be removed
+ * or renamed. An empty list means the edit is safe to apply.
+ */
+export function findMeaningRisks(before: string, after: string, vocabulary?: VocabularyPack): string[] {
+  const risks: string[] = [];
+
+  const negations = (text: string) => (text.match(NEGATION) || []).map(word => word.toLowerCase());
+  missing(negations(before), negations(after)).forEach(word => risks.push(`drops the negation "${word}"`));
+
+  missing(before.match(NUMBER) || [], after.match(NUMBER) || [])
+    .forEach(number => risks.push(`drops the number ${number}`));
+
+  const units = (text: string) => [...text.matchAll(QUANTITY)].map(match => match[1]);
+  missing(units(before), units(after)).forEach(unit => risks.push(`drops the unit "${unit}"`));
+
+  const vocabularyWords = new Set(
+    (vocabulary ? [...vocabulary.forbidden, ...Object.entries(vocabulary.replacements).flat()] : [])
+      .flatMap(term => term.toLowerCase().split(/[^\w'-]+/))
+  );
+  missing(names(before), names(after))
+    .filter(name => !vocabularyWords.has(name))
+    .forEach(name => risks.push(`drops the name "${name}"`));
+
+  missing(before.match(CITATION) || [], after.match(CITATION) || [])
+    .forEach(citation => risks.push(`drops the citation ${citation}`));
+
+  missing(qualifiers(before), qualifiers(after))
+    .forEach(qualifier => risks.push(`unwraps the qualifier "${qualifier}"`));
+
+  missing(after.match(STRANDED_PUNCTUATION) || [], before.match(STRANDED_PUNCTUATION) || [])
+    .forEach(punctuation => risks.push(`leaves the punctuation "${punctuation}" stranded`));
+
+  const dangling = (text: string) => (text.match(DANGLING_WORD) || []).map(match => match.toLowerCase());
+  missing(dangling(after), dangling(before))
+    .forEach(word => risks.push(`leaves "${word}" dangling`));
+
+  missing(infinitiveObjects(after), infinitiveObjects(before))
+    .forEach(pair => risks.push(`leaves "${pair}" without its verb`));
+
+  const doubled = (text: string) => (text.match(DOUBLED_WORD) || []).map(match => match.toLowerCase());
+  missing(doubled(after), doubled(before))
+    .forEach(pair => risks.push(`repeats the word in "${pair}"`));
+
+  missing(disagreements(after), disagreements(before))
+    .forEach(pair => risks.push(`breaks subject-verb agreement in "${pair}"`));
+
+  if (segmentSentences(before).every(hasVerb)) {
+    segmentSentences(after)
+      .filter(sentence => !hasVerb(sentence))
+      .forEach(sentence => risks.push(`leaves "${sentence.text}" without a verb`));
+  }
+
+  return risks;
+}
+
+// Items of `before` (counted with multiplicity) that `after` lacks
+function missing(before: string[], after: string[]): string[] {
+  const remaining = [...after];
+  return before.filter(item => {
+    const index = remaining.indexOf(item);
+    if (index >= 0) remaining.splice(index, 1);
+    return index < 0;
+  });
+}
+
+// Capitalized proper nouns and acronyms, compared without case since an edit
+// may move a name to or from the start of the sentence
+function names(text: string): string[] {
+  return tagTerms(text)
+    .filter(term => (term.tags.has('ProperNoun') || term.tags.has('Acronym')) && /[A-Z]/.test(term.text))
+    .map(term => term.text.replace(/[^\w'-]/g, '').toLowerCase())
+    .filter(Boolean);
+}
+
+// Parentheticals carrying a negation or number, e.g. "(not significant)",
+// "(n = 12)": moved into running text they read as a different claim
+function qualifiers(text: string): string[] {
+  return (text.match(/\([^()]+\)/g) || []).filter(group => {
+    NEGATION.lastIndex = 0;
+    return NEGATION.test(group) || /\d/.test(group);
+  });
+}
+
+// A singular pronoun followed by a bare verb ("this show"), as left behind
+// when a phrase such as "serves to" is dropped
+function disagreements(text: string): string[] {
+  const terms = tagTerms(text);
+  const pairs: string[] = [];
+
+  terms.forEach((term, index) => {
+    const subject = terms[index - 1];
+    if (!subject || !SINGULAR_SUBJECTS.has(subject.lower) || subject.post.trim()) return;
+    if (term.tags.has('Infinitive') && !term.tags.has('Modal') && !term.tags.has('Auxiliary')) {
+      pairs.push(text.slice(subject.start, term.end));
+    }
+  });
+
+  return pairs;
+}
+
+// "to" directly before a determiner ("important to the model"), as left
+// behind when the verb of a "to note that" phrase is dropped
+function infinitiveObjects(text: string): string[] {
+  const terms = tagTerms(text);
+  return terms.flatMap((term, index) => {
+    const next = terms[index + 1];
+    if (term.lower !== 'to' || term.post.trim() || !next?.tags.has('Determiner')) return [];
+    return [text.slice(term.start, next.end).toLowerCase()];
+  });
+}
+
+function hasVerb(sentence: { text: string }): boolean {
+  if (!/[a-z]/i.test(sentence.text)) return true;
+  return tagTerms(sentence.text).some(term => term.tags.has('Verb'));
+}
\ No newline at end of file
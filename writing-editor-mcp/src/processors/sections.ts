@@ -0,0 +1,87 @@
+import { DetectedSection, DocumentBlock, DocumentFormat, DocumentModel, Section, TextRange } from '../types';
+import { parseMarkdown } from './markdown';
+import { parseLatex } from './latex';
+
+export interface LocatedSection extends Section {
+  body: TextRange;
+  spans: TextRange[];
+}
+
+export function parseDocument(
+  text: string,
+  format: DocumentFormat,
+  type: 'full_paper' | 'section' | 'paragraph' | 'abstract'
+): DocumentModel {
+  return format === 'latex'
+    ? parseLatex(text)
+    : parseMarkdown(text, { plainHeadings: type === 'full_paper' });
+}
+
+/**
+ * Splits the document at its headings. Each section keeps the raw heading
+ * source and the range of its body so edited output can be reassembled
+ * without touching anything the rules did not change. A body closed early
+ * (e.g. by `\end{abstract}`) keeps the rest as a verbatim trailer, and
+ * `\end{document}` with what follows it is kept apart as the ending, so
+ * sections inserted at the end still land in the document.
+ */
+export function locateSections(
+  model: DocumentModel,
+  type: 'full_paper' | 'section' | 'paragraph' | 'abstract'
+): LocatedSection[] {
+  const source = model.source;
+  const spansIn = (range: TextRange) => model.blocks
+    .filter(block => block.start >= range.start && block.end <= range.end)
+    .flatMap(block => block.spans);
+  const section = (title: string, body: TextRange, heading?: DocumentBlock): LocatedSection => {
+    const documentEnd = model.documentEnd !== undefined && model.documentEnd >= body.start && model.documentEnd < body.end
+      ? model.documentEnd
+      : body.end;
+    const close = heading && model.blocks.find(b => b.type === 'section_end' && b.start >= body.start && b.end <= documentEnd);
+    const end = close ? close.start : documentEnd;
+    return {
+      title,
+      content: source.slice(body.start, end).trim(),
+      depth: heading?.depth,
+      number: heading?.number,
+      confidence: heading?.confidence,
+      range: { start: heading ? heading.start : body.start, end: body.end },
+      heading: heading ? source.slice(heading.start, body.start) : undefined,
+      trailer: close ? source.slice(end, documentEnd) : undefined,
+      ending: documentEnd < body.end ? source.slice(documentEnd, body.end) : undefined,
+      body: { start: body.start, end },
+      spans: spansIn({ start: body.start, end })
+    };
+  };
+
+  const headings = model.blocks.filter(block => block.type === 'heading');
+  if (type !== 'full_paper') {
+    return [section('Content', { start: 0, end: source.length })];
+  }
+  if (headings.length === 0) {
+    return [section('Document', { start: 0, end: source.length })];
+  }
+
+  const sections: LocatedSection[] = [];
+  if (source.slice(0, headings[0].start).trim()) {
+    sections.push(section('Document', { start: 0, end: headings[0].start }));
+  }
+
+  headings.forEach((heading, index) => {
+    const bodyStart = source[heading.end] === '\n' ? heading.end + 1 : heading.end;
+    const bodyEnd = index + 1 < headings.length ? headings[index + 1].start : source.length;
+    sections.push(section(heading.title || '', { start: bodyStart, end: bodyEnd }, heading));
+  });
+
+  return sections;
+}
+
+export function describeSection(section: Section): DetectedSection {
+  return {
+    title: section.title,
+    number: section.number,
+    depth: section.depth ?? 0,
+    confidence: section.confidence ?? 1,
+    range: section.range!
+  };
+}
@@ -0,0 +1,142 @@
+import { DocumentFormat, HeatmapFormat, SentenceReport, SentenceSeverity, TextRange, WritingEditorConfig } from '../types';
+import { getJargonTerms } from '../vocabulary/packs';
+import { ProtectedText } from './protection';
+import { mapLatexProse } from './latex';
+import { proseSentences } from './sentences';
+import { findPassives } from './passive';
+import { measureReadability } from './readability';
+import { countClauses, isComplexWord, termMatches } from './clarityScore';
+
+const WORD = /[\p{L}\d]+(?:['’-][\p{L}\d]+)*/gu;
+// How far below the target grade a sentence starts to read as hard
+const HARD_GRADE_MARGIN = 4;
+
+// Hemingway's colours: red for very hard, yellow for hard, blue for word choice
+const SEVERITY_STYLES: { [severity in SentenceSeverity]: { marker: string; color: string; label: string } } = {
+  high: { marker: '🟥', color: '#f4b6b6', label: 'very hard to read' },
+  medium: { marker: '🟨', color: '#fbe7a1', label: 'hard to read' },
+  low: { marker: '🟦', color: '#cfe3fb', label: 'passive voice, complex words or jargon' },
+  none: { marker: '', color: '', label: '' }
+};
+
+// Block markers kept in front of a sentence's marker, so list items and
+// quotations still render as such
+const BLOCK_PREFIX = /^(?:[ \t]*(?:[-*+]|\d+[.)]|>)[ \t]+)+/;
+
+/**
+ * Analyzes every sentence of the text: length, Flesch–Kincaid grade,
+ * clauses, passive voice, complex words and jargon, and rates how hard it
+ * is to read. Severity only counts the findings of enabled rules; the grade
+ * always counts. Like the clarity score, only prose is analyzed.
+ */
+export function reportSentences(
+  input: string,
+  config: WritingEditorConfig,
+  format: DocumentFormat = 'markdown',
+  isEnabled: (ruleId: string) => boolean = () => true,
+  heatmapFormat: HeatmapFormat = 'markdown'
+): { sentences: SentenceReport[]; heatmap: string } {
+  const { prose, toSourceOffset } = format === 'latex'
+    ? mapLatexProse(input)
+    : { prose: input, toSourceOffset: (offset: number) => offset };
+  const protectedText = ProtectedText.protect(prose, format);
+  const text = protectedText.masked;
+  const passives = findPassives(text);
+  const jargon = termMatches(text, getJargonTerms(config.vocabulary));
+  const { thresholds } = config;
+
+  const spans = proseSentences(text);
+  const sentences = spans.map((span, index): SentenceReport => {
+    const within = (range: TextRange) => range.start >= span.start && range.end <= span.end;
+    const words = (span.text.match(WORD) || []).length;
+    const gradeLevel = measureReadability(span.text).fleschKincaidGrade;
+    const clauses = countClauses(span.text);
+    const passive = passives.some(within);
+    const complexWords = [...span.text.matchAll(WORD)].map(match => match[0]).filter(isComplexWord);
+    const jargonHits = jargon.filter(within).map(range => protectedText.restore(text.slice(range.start, range.end)));
+
+    const reasons: { severity: SentenceSeverity; reason: string }[] = [];
+    if (gradeLevel > thresholds.maxGradeLevel) {
+      reasons.push({ severity: 'high', reason: `grade ${gradeLevel} above ${thresholds.maxGradeLevel}` });
+    } else if (gradeLevel > thresholds.maxGradeLevel - HARD_GRADE_MARGIN) {
+      reasons.push({ severity: 'medium', reason: `grade ${gradeLevel} near ${thresholds.maxGradeLevel}` });
+    }
+    if (isEnabled('long-sentences') && words > thresholds.longSentenceWords) {
+      reasons.push({ severity: 'high', reason: `${words} words, over ${thresholds.longSentenceWords}` });
+    }
+    if (isEnabled('multiple-ideas') && clauses > thresholds.maxClauses) {
+      reasons.push({ severity: 'medium', reason: `${clauses} subordinate clauses, over ${thresholds.maxClauses}` });
+    }
+    if (isEnabled('passive-voice') && passive) {
+      reasons.push({ severity: 'low', reason: 'passive voice' });
+    }
+    if (isEnabled('simplify-language') && complexWords.length > 0) {
+      reasons.push({ severity: 'low', reason: `complex words: ${complexWords.join(', ')}` });
+    }
+    if (isEnabled('forbidden-vocabulary') && jargonHits.length > 0) {
+      reasons.push({ severity: 'low', reason: `jargon: ${jargonHits.join(', ')}` });
+    }
+
+    const severity = (['high', 'medium', 'low'] as SentenceSeverity[])
+      .find(level => reasons.some(reason => reason.severity === level)) ?? 'none';
+
+    return {
+      index,
+      text: protectedText.restore(span.text),
+      start: toSourceOffset(protectedText.toOriginalOffset(span.start)),
+      end: toSourceOffset(protectedText.toOriginalOffset(span.end)),
+      words,
+      gradeLevel,
+      clauses,
+      passive,
+      complexWords,
+      jargon: jargonHits,
+      severity,
+      reasons: reasons.map(reason => reason.reason)
+    };
+  });
+
+  const render = heatmapFormat === 'html' ? renderHtmlSentence : renderMarkdownSentence;
+  let heatmap = '';
+  let cursor = 0;
+  spans.forEach((span, i) => {
+    heatmap += escape(protectedText.restore(text.slice(cursor, span.start)), heatmapFormat);
+    heatmap += render(sentences[i]);
+    cursor = span.end;
+  });
+  heatmap += escape(protectedText.restore(text.slice(cursor)), heatmapFormat);
+
+  return { sentences, heatmap: heatmapFormat === 'html' ? htmlDocument(heatmap) : markdownDocument(heatmap) };
+}
+
+function renderMarkdownSentence(sentence: SentenceReport): string {
+  const { marker } = SEVERITY_STYLES[sentence.severity];
+  if (!marker) return sentence.text;
+  const prefix = sentence.text.match(BLOCK_PREFIX)?.[0] ?? '';
+  return `${prefix}${marker} ${sentence.text.slice(prefix.length)}`;
+}
+
+function renderHtmlSentence(sentence: SentenceReport): string {
+  const { color, label } = SEVERITY_STYLES[sentence.severity];
+  const text = escape(sentence.text, 'html');
+  if (!color) return `<span data-sentence="${sentence.index}">${text}</span>`;
+  const title = escape(`${label}: ${sentence.reasons.join('; ')}`, 'html');
+  return `<span data-sentence="${sentence.index}" data-severity="${sentence.severity}" title="${title}" style="background: ${color}">${text}</span>`;
+}
+
+function markdownDocument(body: string): string {
+  const legend = (['high', 'medium', 'low'] as SentenceSeverity[])
+    .map(severity => `${SEVERITY_STYLES[severity].marker} ${SEVERITY_STYLES[severity].label}`)
+    .join(' · ');
+  return `> ${legend}\n\n${body}`;
+}
+
+// Whitespace is preserved, so paragraphs and line breaks stay where they were
+function htmlDocument(body: string): string {
+  return `<div class="clarity-heatmap" style="white-space: pre-wrap">${body}</div>`;
+}
+
+function escape(text: string, heatmapFormat: HeatmapFormat): string {
+  if (heatmapFormat !== 'html') return text;
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
\ No newline at end of file
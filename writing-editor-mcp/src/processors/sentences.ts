@@ -0,0 +1,144 @@
+import { TextRange } from '../types';
+
+export interface SentenceSpan extends TextRange {
+  text: string;
+}
+
+// Lower-case, without the trailing period. Multi-part forms ("e.g", "et al")
+// are matched against the text that precedes the period.
+const ABBREVIATIONS = [
+  'e.g', 'i.e', 'et al', 'etc', 'cf', 'vs', 'viz', 'approx', 'resp', 'ca',
+  'fig', 'figs', 'eq', 'eqs', 'sec', 'secs', 'tab', 'ref', 'refs', 'ch', 'chap',
+  'app', 'alg', 'thm', 'lem', 'def', 'prop', 'cor', 'no', 'nos', 'vol', 'pp', 'p',
+  'ed', 'eds', 'dr', 'mr', 'mrs', 'ms', 'prof', 'jr', 'sr', 'st', 'inc', 'ltd',
+  'co', 'corp', 'dept', 'univ', 'jan', 'feb', 'mar', 'apr', 'jun', 'jul', 'aug',
+  'sep', 'sept', 'oct', 'nov', 'dec', 'u.s', 'u.k', 'ph.d', 'a.k.a'
+];
+
+// Abbreviations that also end sentences; they only split before a capital.
+const TERMINAL_ABBREVIATIONS = new Set(['etc', 'et al']);
+
+const OPENERS: { [char: string]: string } = { '(': ')', '[': ']', '{': '}' };
+const CLOSERS = new Set([')', ']', '}']);
+const CLOSING_QUOTES = new Set(['"', '”', '’', "'"]);
+
+/**
+ * Splits text into sentences. Periods in abbreviations ("e.g.", "Fig. 3",
+ * "et al."), decimals and version numbers ("3.14", "v1.2") do not end a
+ * sentence, nor does punctuation inside brackets. Text after the last
+ * terminal mark is returned as a final sentence instead of being dropped.
+ * Offsets refer to `text`; the gaps between sentences are whitespace only.
+ */
+export function segmentSentences(text: string): SentenceSpan[] {
+  const sentences: SentenceSpan[] = [];
+  const brackets: string[] = [];
+  let inQuote = false;
+  let start = skipSpace(text, 0);
+  let i = start;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    // A blank line always ends a sentence, even one with an unclosed
+    // bracket or quote
+    if (char === '\n' && /^\n[ \t]*\n/.test(text.slice(i, i + 64))) {
+      const pending = text.slice(start, i).trimEnd();
+      if (pending) sentences.push({ text: pending, start, end: start + pending.length });
+      brackets.length = 0;
+      inQuote = false;
+      start = i = skipSpace(text, i);
+      continue;
+    }
+
+    if (OPENERS[char]) {
+      brackets.push(OPENERS[char]);
+    } else if (CLOSERS.has(char)) {
+      if (brackets[brackets.length - 1] === char) brackets.pop();
+    } else if (char === '"' || char === '“' || char === '”') {
+      inQuote = char === '“' ? true : char === '”' ? false : !inQuote;
+    }
+
+    if (!isTerminal(char)) {
+      i++;
+      continue;
+    }
+
+    // Closing brackets and quotes right after the mark belong to the
+    // sentence it ends: `(see Table 2.)` or `"it works."`
+    let end = i + 1;
+    while (end < text.length && isTerminal(text[end])) end++;
+    while (end < text.length && (CLOSERS.has(text[end]) || CLOSING_QUOTES.has(text[end]))) {
+      if (brackets[brackets.length - 1] === text[end]) brackets.pop();
+      if (text[end] === '"' || text[end] === '”') inQuote = false;
+      end++;
+    }
+
+    const next = skipSpace(text, end);
+    const isBoundary = (next > end || end === text.length) && brackets.length === 0 && !inQuote;
+
+    if (isBoundary && !continuesSentence(text, start, i, next)) {
+      sentences.push({ text: text.slice(start, end), start, end });
+      start = next;
+    }
+    i = end;
+  }
+
+  const rest = text.slice(start).trimEnd();
+  if (rest) {
+    sentences.push({ text: rest, start, end: start + rest.length });
+  }
+
+  return sentences;
+}
+
+/**
+ * The sentences of `text` that are prose: Markdown headings are cut off the
+ * sentence they open, and spans left without a letter or digit are dropped.
+ */
+export function proseSentences(text: string): SentenceSpan[] {
+  return segmentSentences(text)
+    .map(withoutHeading)
+    .filter(sentence => /[\p{L}\d]/u.test(sentence.text));
+}
+
+// Headings are titles, not sentences: a one-word heading would read as a
+// sentence of grade 30
+function withoutHeading(sentence: SentenceSpan): SentenceSpan {
+  const heading = sentence.text.match(/^#{1,6}[ \t].*(?:\n\s*|$)/);
+  if (!heading) return sentence;
+  const start = sentence.start + heading[0].length;
+  return { text: sentence.text.slice(heading[0].length), start, end: sentence.end };
+}
+
+export function splitSentences(text: string): string[] {
+  return segmentSentences(text).map(sentence => sentence.text);
+}
+
+function continuesSentence(text: string, start: number, terminal: number, next: number): boolean {
+  if (text[terminal] !== '.') return false;
+  if (next >= text.length) return false;
+
+  const following = text[next];
+  if (/[a-z]/.test(following)) return true;
+
+  const word = text.slice(start, terminal).match(/(?:^|[\s(\[{"“])([^\s(\[{"“]+(?:\s+al)?)$/);
+  if (!word) return false;
+  const token = word[1].toLowerCase();
+
+  // Single initials ("J. Smith") and abbreviations ("Fig. 3", "e.g. Smith")
+  if (/^[a-z]$/i.test(token) && /[A-Z]/.test(word[1])) return true;
+  if (ABBREVIATIONS.includes(token)) {
+    return !TERMINAL_ABBREVIATIONS.has(token) || !/[A-Z]/.test(following);
+  }
+  return false;
+}
+
+function isTerminal(char: string): boolean {
+  return char === '.' || char === '!' || char === '?' || char === '…';
+}
+
+function skipSpace(text: string, from: number): number {
+  let i = from;
+  while (i < text.length && /\s/.test(text[i])) i++;
+  return i;
+}
@@ -0,0 +1,165 @@
+import { PorterStemmer, TfIdf, WordTokenizer, stopwords } from 'natural';
+import { DocumentFormat, Section } from '../types';
+import { parseDocument } from './sections';
+import { splitSentences } from './sentences';
+
+export type AbstractComponent = 'problem' | 'approach' | 'result';
+
+interface RankedSentence {
+  text: string;
+  words: number;
+  // Section and position within it, for restoring document order
+  section: number;
+  position: number;
+  score: number;
+}
+
+const DAMPING = 0.85;
+const ITERATIONS = 30;
+const STOPWORDS = new Set(stopwords);
+const tokenizer = new WordTokenizer();
+
+// Sections each component is usually stated in
+const COMPONENT_SECTIONS: { [component in AbstractComponent]: RegExp } = {
+  problem: /introduction|motivation|background/i,
+  approach: /method|approach|design|technical|system|architecture|implementation|introduction/i,
+  result: /evaluation|result|experiment|discussion|conclusion/i
+};
+
+/**
+ * Scores sentences with TextRank: sentences are nodes, edges are weighted by
+ * the cosine similarity of their TF-IDF vectors over stemmed content words,
+ * and PageRank gives the sentences most similar to the rest of the text the
+ * highest score. Returns one score per sentence.
+ */
+export function rankSentences(sentences: string[]): number[] {
+  const tfidf = new TfIdf();
+  sentences.forEach(sentence => tfidf.addDocument(contentWords(sentence)));
+
+  const vectors = sentences.map((_, i) => {
+    const vector = new Map<string, number>();
+    tfidf.listTerms(i).forEach(({ term, tfidf: weight }) => vector.set(term, weight));
+    return vector;
+  });
+
+  const similarity = vectors.map((a, i) => vectors.map((b, j) => (i === j ? 0 : cosine(a, b))));
+  const outgoing = similarity.map(row => row.reduce((sum, weight) => sum + weight, 0));
+
+  const n = sentences.length;
+  let scores = new Array<number>(n).fill(1 / Math.max(n, 1));
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    scores = scores.map((_, i) => (1 - DAMPING) / n + DAMPING * similarity.reduce(
+      (sum, row, j) => (outgoing[j] > 0 ? sum + (row[i] / outgoing[j]) * scores[j] : sum),
+      0
+    ));
+  }
+
+  return scores;
+}
+
+/**
+ * Picks, for each component in `cues`, the highest-ranked sentence that
+ * contains one of its cue words, from the sections the component usually
+ * appears in ("problem" from the introduction, "result" from the
+ * evaluation). Components without such a sentence are left out; the
+ * document is never padded with invented text.
+ */
+export function extractComponents(
+  sections: Section[],
+  cues: { [component in AbstractComponent]?: string[] },
+  format: DocumentFormat = 'markdown'
+): { [component in AbstractComponent]?: string } {
+  const ranked = rankDocument(sections, format);
+  const used = new Set<string>();
+  const found: { [component in AbstractComponent]?: string } = {};
+
+  (Object.keys(cues) as AbstractComponent[]).forEach(component => {
+    const states = (text: string) => cues[component]!.some(cue => text.toLowerCase().includes(cue));
+    const best = ranked
+      .filter(sentence => COMPONENT_SECTIONS[component].test(sections[sentence.section].title) && states(sentence.text))
+      .filter(sentence => !used.has(sentence.text))
+      .sort((a, b) => b.score - a.score)[0];
+    if (best) {
+      used.add(best.text);
+      found[component] = best.text;
+    }
+  });
+
+  return found;
+}
+
+/**
+ * The highest-ranked sentences of `sections`, in document order: as many as
+ * fit in `maxWords`, stopping once `minWords` or `maxSentences` is reached.
+ * Sentences listed in `exclude` (e.g. already in the abstract) are skipped.
+ */
+export function summarize(
+  sections: Section[],
+  limits: { minWords?: number; maxWords: number; maxSentences?: number },
+  format: DocumentFormat = 'markdown',
+  exclude: string[] = []
+): string[] {
+  const excluded = new Set(exclude.map(normalize));
+  const chosen: RankedSentence[] = [];
+  let words = 0;
+
+  rankDocument(sections, format)
+    .filter(sentence => !excluded.has(sentence.text))
+    .sort((a, b) => b.score - a.score)
+    .forEach(sentence => {
+      if (words >= (limits.minWords ?? Infinity) || chosen.length >= (limits.maxSentences ?? Infinity)) return;
+      if (words + sentence.words > limits.maxWords) return;
+      chosen.push(sentence);
+      words += sentence.words;
+    });
+
+  return chosen
+    .sort((a, b) => a.section - b.section || a.position - b.position)
+    .map(sentence => sentence.text);
+}
+
+// Ranked over the whole document, so term weights reflect what sets a
+// sentence apart from the rest of the paper
+function rankDocument(sections: Section[], format: DocumentFormat): RankedSentence[] {
+  const sentences = sections.flatMap((section, index) =>
+    proseSentences(section.edited ?? section.content, format).map((text, position) => ({
+      text,
+      words: text.split(/\s+/).length,
+      section: index,
+      position,
+      score: 0
+    }))
+  );
+
+  const scores = rankSentences(sentences.map(sentence => sentence.text));
+  sentences.forEach((sentence, i) => (sentence.score = scores[i]));
+  return sentences;
+}
+
+// Complete sentences of prose only: no markup, comments or TODO notes
+function proseSentences(text: string, format: DocumentFormat): string[] {
+  return parseDocument(text, format, 'section').blocks
+    .flatMap(block => block.spans)
+    .map(span => text.slice(span.start, span.end).replace(/<!--[\s\S]*?-->/g, ''))
+    .flatMap(splitSentences)
+    .map(normalize)
+    .filter(sentence => /^[A-Z]/.test(sentence) && /[.!?]$/.test(sentence) && sentence.split(' ').length >= 4);
+}
+
+function normalize(sentence: string): string {
+  return sentence.replace(/\s+/g, ' ').trim();
+}
+
+function contentWords(sentence: string): string[] {
+  return (tokenizer.tokenize(sentence.toLowerCase()) || [])
+    .filter(word => !STOPWORDS.has(word) && /[a-z]/.test(word))
+    .map(word => PorterStemmer.stem(word));
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  a.forEach((weight, term) => (dot += weight * (b.get(term) ?? 0)));
+  const norm = (vector: Map<string, number>) => Math.sqrt([...vector.values()].reduce((sum, w) => sum + w * w, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator > 0 ? dot / denominator : 0;
+}
\ No newline at end of file
@@ -0,0 +1,172 @@
+import { SpanEdit } from '../types';
+import { GrammaticalPerson, Term, VerbForms, conjugate, grammaticalPerson, isVerb, presentForm, tagTerms } from './terms';
+
+const FUTURE_MODALS = new Set(['will', 'shall', "won't"]);
+const PRESENT_BE: { [form: string]: GrammaticalPerson } = { am: 'first-singular', is: 'third-singular', are: 'plural' };
+const RELATIVE_PRONOUNS = new Set(['that', 'which', 'who']);
+const NOUN_PHRASE_TAGS = ['Noun', 'Pronoun', 'Determiner', 'Adjective', 'Possessive', 'Value', 'Acronym', 'ProperNoun'];
+const CONTRACTIONS: { [form: string]: string } = {
+  is: "isn't", are: "aren't", has: "hasn't", have: "haven't", does: "doesn't", do: "don't"
+};
+
+/**
+ * Rewrites future tense ("will", "shall", "is going to") in the present,
+ * conjugating the verb for its subject: "the models will go" -> "the models
+ * go", "it will go" -> "it goes", "we will be running" -> "we are running".
+ * Quoted text and clauses whose subject cannot be found are left alone.
+ * Returns undefined when nothing was rewritten.
+ */
+export function toPresentTense(sentence: string): string | undefined {
+  const terms = tagTerms(sentence);
+  const quotes = quoteRanges(sentence);
+  const edits: SpanEdit[] = [];
+
+  terms.forEach((term, index) => {
+    if (quotes.some(range => term.start >= range.start && term.start < range.end)) return;
+    if (edits.length > 0 && term.start < edits[edits.length - 1].end) return;
+
+    const edit = FUTURE_MODALS.has(term.lower) && term.tags.has('Modal')
+      ? rewriteModal(terms, index)
+      : PRESENT_BE[term.lower] ? rewriteGoingTo(terms, index) : undefined;
+    if (edit) edits.push(edit);
+  });
+
+  if (edits.length === 0) return undefined;
+
+  return edits.reduceRight(
+    (text, edit) => text.slice(0, edit.start) + edit.text + text.slice(edit.end),
+    sentence
+  );
+}
+
+function rewriteModal(terms: Term[], modal: number): SpanEdit | undefined {
+  const contracted = terms[modal].lower === "won't";
+  const chain = modifierChain(terms, modal);
+  if (!chain) return undefined;
+
+  const verb = terms[chain.next];
+  if (!verb || verb.tags.has('Modal') || !(verb.tags.has('Infinitive') || ['be', 'have'].includes(verb.lower))) {
+    return undefined;
+  }
+  // "will still work": when the word after could be the verb instead, this
+  // one may be an adverb tagged as a verb
+  const following = terms[chain.next + 1];
+  if (!isVerb(verb.lower) && following && !verb.post.trim() && isVerb(following.lower) && !following.tags.has('Plural')) {
+    return undefined;
+  }
+
+  const person = subjectPerson(terms, modal, chain.next);
+  const forms = conjugate(verb.lower);
+  if (!person || !forms) return undefined;
+
+  const auxiliary = verb.lower === 'be' ||
+    (verb.lower === 'have' && !!terms[chain.next + 1]?.tags.has('PastTense') && !verb.post.trim());
+
+  const text = phrase(forms, person, auxiliary, contracted || chain.negated, contracted, chain.adverbs);
+  return { start: terms[modal].start, end: verb.end, text };
+}
+
+// "is going to show" -> "shows"; the form of "be" already agrees with the
+// subject
+function rewriteGoingTo(terms: Term[], be: number): SpanEdit | undefined {
+  const chain = modifierChain(terms, be);
+  if (!chain) return undefined;
+
+  const [going, to, verb] = terms.slice(chain.next, chain.next + 3);
+  if (going?.lower !== 'going' || to?.lower !== 'to' || !verb?.tags.has('Infinitive')) return undefined;
+  if (going.post.trim() || to.post.trim()) return undefined;
+
+  const forms = conjugate(verb.lower);
+  if (!forms) return undefined;
+
+  const text = phrase(forms, PRESENT_BE[terms[be].lower], false, chain.negated, false, chain.adverbs);
+  return { start: terms[be].start, end: verb.end, text };
+}
+
+// Negations and adverbs between the auxiliary and the verb: "will not
+// always", "is also going to". Compromise tags some adverbs as verbs ("will
+// soon go"); a word that is no verb on its own, followed by an infinitive,
+// counts as an adverb.
+function modifierChain(terms: Term[], auxiliary: number): { next: number; negated: boolean; adverbs: string[] } | undefined {
+  let next = auxiliary + 1;
+  let negated = false;
+  const adverbs: string[] = [];
+  const isAdverb = (term: Term, following?: Term) => term.tags.has('Adverb') ||
+    (!term.post.trim() && !isVerb(term.lower) && !!following?.tags.has('Infinitive'));
+
+  if (terms[auxiliary].post.trim()) return undefined;
+  while (next < terms.length && (terms[next].tags.has('Negative') || isAdverb(terms[next], terms[next + 1]))) {
+    if (terms[next].tags.has('Negative')) negated = true;
+    // The implicit "not" of "won't" has no text of its own
+    else adverbs.push(terms[next].text);
+    if (terms[next].post.trim()) return undefined;
+    next++;
+  }
+
+  return { next, negated, adverbs };
+}
+
+function phrase(
+  forms: VerbForms,
+  person: GrammaticalPerson,
+  auxiliary: boolean,
+  negated: boolean,
+  contracted: boolean,
+  adverbs: string[]
+): string {
+  const not = (head: string) => contracted && CONTRACTIONS[head] ? [CONTRACTIONS[head]] : [head, 'not'];
+
+  if (auxiliary) {
+    const head = presentForm(forms, person);
+    return [...(negated ? not(head) : [head]), ...adverbs].join(' ');
+  }
+  if (negated) {
+    return [...not(person === 'third-singular' ? 'does' : 'do'), ...adverbs, forms.Infinitive].join(' ');
+  }
+  return [...adverbs, presentForm(forms, person)].join(' ');
+}
+
+// The noun phrase before the modal, or the antecedent of a relative pronoun
+// ("the models that will run"). After "there", the noun following the verb
+// decides ("there will be problems" -> "there are problems").
+function subjectPerson(terms: Term[], modal: number, verb: number): GrammaticalPerson | undefined {
+  let k = modal - 1;
+  while (k >= 0 && terms[k].tags.has('Adverb') && !terms[k].post.trim() && !terms[k].tags.has('Pronoun')) k--;
+  if (k < 0 || terms[k].post.trim()) return undefined;
+
+  if (terms[k].lower === 'there') {
+    const noun = terms.slice(verb + 1).find(term => term.tags.has('Noun'));
+    return noun ? grammaticalPerson([noun]) : undefined;
+  }
+  if (RELATIVE_PRONOUNS.has(terms[k].lower) && k > 0) k--;
+
+  const subject: Term[] = [];
+  for (; k >= 0; k--) {
+    const term = terms[k];
+    if (subject.length > 0 && term.post.trim()) break;
+    const connector = term.lower === 'of' || term.lower === 'and';
+    if (!connector && (!NOUN_PHRASE_TAGS.some(tag => term.tags.has(tag)) || term.tags.has('Verb'))) break;
+    subject.unshift(term);
+    if ((term.tags.has('Determiner') || term.tags.has('Possessive')) && !['of', 'and'].includes(terms[k - 1]?.lower)) {
+      k--;
+      break;
+    }
+  }
+  // "We train the model and it will converge": only "it" is the subject
+  if (terms[k]?.tags.has('Verb')) {
+    const and = subject.map(term => term.lower).lastIndexOf('and');
+    if (and >= 0) subject.splice(0, and + 1);
+  }
+  while (subject.length > 0 && ['of', 'and'].includes(subject[0].lower)) subject.shift();
+
+  if (subject.some(term => term.tags.has('Noun') || term.tags.has('Pronoun'))) return grammaticalPerson(subject);
+  // "This will show", "Each will run"
+  return subject.length === 1 && subject[0].tags.has('Determiner') ? 'third-singular' : undefined;
+}
+
+function quoteRanges(text: string): { start: number; end: number }[] {
+  return [...text.matchAll(/"[^"]*"|“[^”]*”/g)].map(match => ({
+    start: match.index!,
+    end: match.index! + match[0].length
+  }));
+}
\ No newline at end of file
@@ -0,0 +1,127 @@
+import nlp from 'compromise';
+
+export interface Term {
+  text: string;
+  lower: string;
+  post: string;
+  start: number;
+  end: number;
+  tags: Set<string>;
+}
+
+export interface VerbForms {
+  Infinitive: string;
+  PresentTense: string;
+  PastTense: string;
+  Gerund: string;
+  Participle?: string;
+}
+
+export type GrammaticalPerson = 'first-singular' | 'third-singular' | 'plural';
+
+// The parts of compromise's `json({ offset: true })` output that are used
+interface TaggedSentence {
+  terms: {
+    text: string;
+    post: string;
+    tags: string[];
+    offset: { start: number; length: number };
+  }[];
+}
+
+export function tagTerms(text: string): Term[] {
+  const sentences: TaggedSentence[] = nlp(text).json({ offset: true });
+  return sentences.flatMap(sentence =>
+    sentence.terms.map(term => ({
+      text: term.text,
+      lower: term.text.toLowerCase(),
+      post: term.post,
+      start: term.offset.start,
+      end: term.offset.start + term.offset.length,
+      tags: new Set<string>(term.tags)
+    }))
+  );
+}
+
+// Irregular forms come from compromise's conjugator ("go" -> "goes", "went")
+export function conjugate(verb: string): VerbForms | undefined {
+  const doc = nlp(verb);
+  doc.tag('Verb');
+  const forms = doc.verbs().conjugate()[0] as VerbForms | undefined;
+  return forms?.Infinitive ? forms : undefined;
+}
+
+const participles = new Map<string, boolean>();
+
+// Whether a word is the past participle of some verb ("trained", "done"),
+// even where compromise tags it as an adjective. Words that only look like
+// one ("red", "tired") conjugate back to themselves.
+export function isPastParticiple(word: string): boolean {
+  const lower = word.toLowerCase();
+  const known = participles.get(lower);
+  if (known !== undefined) return known;
+
+  const participle = ['Participle', 'PastTense'].some(tag => {
+    const doc = nlp(lower);
+    doc.tag(tag);
+    const infinitive = doc.verbs().toInfinitive().text();
+    if (!infinitive || infinitive === lower) return false;
+    const forms = conjugate(infinitive);
+    return forms !== undefined && (forms.Participle === lower || forms.PastTense === lower);
+  });
+  participles.set(lower, participle);
+  return participle;
+}
+
+const verbs = new Map<string, boolean>();
+
+// Whether compromise knows a word as a verb on its own, out of context
+export function isVerb(word: string): boolean {
+  const lower = word.toLowerCase();
+  let verb = verbs.get(lower);
+  if (verb === undefined) {
+    verb = nlp(lower).has('#Verb');
+    verbs.set(lower, verb);
+  }
+  return verb;
+}
+
+const PRONOUN_PERSONS: { [pronoun: string]: GrammaticalPerson } = {
+  i: 'first-singular', me: 'first-singular',
+  we: 'plural', us: 'plural', they: 'plural', them: 'plural', you: 'plural',
+  he: 'third-singular', him: 'third-singular', she: 'third-singular', her: 'third-singular', it: 'third-singular'
+};
+const PLURAL_QUANTIFIERS = new Set(['both', 'many', 'several', 'few']);
+const SINGULAR_QUANTIFIERS = new Set(['each', 'either', 'neither', 'one', 'every']);
+
+/**
+ * Person and number of a noun phrase, for subject-verb agreement. The head
+ * decides, which is the last noun or pronoun before any "of" ("the accuracy
+ * of the models" is singular, "in Section 3 we" is plural). A quantifier
+ * before "of" decides by itself ("both of them", "each of them"), or passes
+ * the choice on to the phrase after it ("all of the models").
+ */
+export function grammaticalPerson(phrase: Term[]): GrammaticalPerson {
+  const words = phrase.map(term => term.lower);
+  if (words.includes('and')) return 'plural';
+
+  const of = words.indexOf('of');
+  const head = (of > 0 ? phrase.slice(0, of) : phrase)
+    .filter(term => term.tags.has('Noun') || term.tags.has('Pronoun'))
+    .pop();
+  if (!head && of > 0) {
+    const quantifier = words[of - 1];
+    if (PLURAL_QUANTIFIERS.has(quantifier)) return 'plural';
+    if (SINGULAR_QUANTIFIERS.has(quantifier)) return 'third-singular';
+    return grammaticalPerson(phrase.slice(of + 1));
+  }
+  if (head && PRONOUN_PERSONS[head.lower]) return PRONOUN_PERSONS[head.lower];
+  return head?.tags.has('Plural') ? 'plural' : 'third-singular';
+}
+
+export function presentForm(forms: VerbForms, person: GrammaticalPerson): string {
+  if (forms.Infinitive === 'be') {
+    return person === 'first-singular' ? 'am' : person === 'plural' ? 'are' : 'is';
+  }
+  return person === 'third-singular' ? forms.PresentTense : forms.Infinitive;
+}
\ No newline at end of file
@@ -0,0 +1,52 @@
+import { SpanEdit } from '../types';
+import { isProtectedChar } from './protection';
+
+export interface TextPosition {
+  line: number;
+  column: number;
+  paragraph: number;
+}
+
+/**
+ * Smallest edit turning `before` into `after`, widened to whole words (and
+ * whole protected placeholders) so a replacement reads "utilize" -> "use"
+ * rather than "tiliz" -> "s".
+ */
+export function diffSpan(before: string, after: string): SpanEdit {
+  const maxShared = Math.min(before.length, after.length);
+
+  let prefix = 0;
+  while (prefix < maxShared && before[prefix] === after[prefix]) prefix++;
+
+  let suffix = 0;
+  while (
+    suffix < maxShared - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  while (prefix > 0 && isWordChar(before[prefix - 1])) prefix--;
+  while (suffix > 0 && isWordChar(before[before.length - suffix])) suffix--;
+
+  return {
+    start: prefix,
+    end: before.length - suffix,
+    text: after.slice(prefix, after.length - suffix)
+  };
+}
+
+export function getTextPosition(text: string, offset: number): TextPosition {
+  const preceding = text.slice(0, offset);
+  const lines = preceding.split('\n');
+
+  return {
+    line: lines.length,
+    column: lines[lines.length - 1].length + 1,
+    paragraph: preceding.split(/\n(?:[ \t]*\n)+/).length - 1
+  };
+}
+
+function isWordChar(char: string | undefined): boolean {
+  return !!char && (/\w/.test(char) || isProtectedChar(char));
+}
@@ -1,40 +1,59 @@
 import { Change } from '../types';
-
-export class ClarityRules {
-  private changes: Change[] = [];
+import { RuleRegistry, RuleSet } from './registry';
+import { replaceTerms } from '../vocabulary/replace';
+import { splitSentences } from '../processors/sentences';
+import { splitClauses } from '../processors/clauses';
+import { findPassives, toActiveVoice } from '../processors/passive';
+
+export class ClarityRules extends RuleSet {
+  register(registry: RuleRegistry): void {
+    registry.register({
+      id: 'long-sentences',
+      category: 'clarity',
+      scope: 'sentence',
+      description: 'Split sentences longer than the configured word limit',
+      order: 10,
+      apply: text => this.splitLongSentences(text),
+      detect: text => this.probe(text, t => this.splitLongSentences(t))
+    });
+    registry.register({
+      id: 'passive-voice',
+      category: 'clarity',
+      scope: 'sentence',
+      description: 'Convert passive voice to active voice',
+      order: 20,
+      apply: text => this.fixPassiveVoice(text),
+      detect: text => findPassives(text).length > 0
+    });
+    registry.register({
+      id: 'simplify-language',
+      category: 'vocabulary',
+      scope: 'sentence',
+      description: 'Replace elaborate vocabulary with simpler alternatives',
+      order: 30,
+      apply: text => this.simplifyLanguage(text),
+      detect: text => this.probe(text, t => this.simplifyLanguage(t))
+    });
+    registry.register({
+      id: 'multiple-ideas',
+      category: 'clarity',
+      scope: 'sentence',
+      description: 'Separate multiple ideas into individual sentences',
+      order: 90,
+      apply: text => this.separateMultipleIdeas(text).join(' '),
+      detect: text => this.probe(text, t => this.separateMultipleIdeas(t).join(' '))
+    });
+  }
 
   fixPassiveVoice(sentence: string): string {
-    const passivePatterns = [
-      {
-        pattern: /(\w+)\s+(?:was|were)\s+(\w+ed|en|t)\s+by\s+(.+?)(?:\.|,|$)/gi,
-        transform: (match: string, subject: string, verb: string, actor: string) => {
-          const activeVerb = this.getActiveVerb(verb);
-          return `${actor} ${activeVerb} ${subject}${match.slice(-1)}`;
-        }
-      },
-      {
-        pattern: /it\s+(?:is|was)\s+(\w+ed)\s+that/gi,
-        transform: (match: string, verb: string) => this.restructureItIs(match, verb)
-      },
-      {
-        pattern: /(\w+)\s+(?:has|have)\s+been\s+(\w+ed|en)\s*/gi,
-        transform: (match: string, subject: string, verb: string) => {
-          const activeForm = this.getActiveVerb(verb);
-          return `${subject} ${activeForm}`;
-        }
-      }
-    ];
-
     let result = sentence;
-    let changed = false;
-
-    passivePatterns.forEach(rule => {
-      const originalResult = result;
-      result = result.replace(rule.pattern, rule.transform as any);
-      if (originalResult !== result) changed = true;
-    });
+    for (let pass = 0; pass < 3; pass++) {
+      const active = toActiveVoice(result);
+      if (!active || active === result) break;
+      result = active;
+    }
 
-    if (changed) {
+    if (result !== sentence) {
       this.changes.push({
         rule: 'Passive Voice',
         type: 'clarity',
@@ -44,71 +63,34 @@ export class ClarityRules {
       });
     }
 
-    return result;
-  }
-
-  private getActiveVerb(pastParticiple: string): string {
-    const irregularVerbs: { [key: string]: string } = {
-      'written': 'wrote',
-      'driven': 'drove',
-      'given': 'gave',
-      'taken': 'took',
-      'chosen': 'chose',
-      'seen': 'saw',
-      'done': 'did',
-      'known': 'knew',
-      'shown': 'showed',
-      'proven': 'proved',
-      'broken': 'broke',
-      'spoken': 'spoke',
-      'eaten': 'ate',
-      'beaten': 'beat',
-      'forgotten': 'forgot',
-      'frozen': 'froze',
-      'gotten': 'got',
-      'hidden': 'hid',
-      'ridden': 'rode',
-      'risen': 'rose',
-      'stolen': 'stole',
-      'worn': 'wore'
-    };
-
-    if (irregularVerbs[pastParticiple]) {
-      return irregularVerbs[pastParticiple];
-    }
-
-    if (pastParticiple.endsWith('ed')) {
-      const base = pastParticiple.slice(0, -2);
-      if (pastParticiple.endsWith('ied')) {
-        return pastParticiple.slice(0, -3) + 'y';
-      }
-      if (pastParticiple.endsWith('ted') || pastParticiple.endsWith('ded')) {
-        return base;
-      }
-      return base;
-    }
-
-    return pastParticiple;
-  }
+    // Without an agent there is nobody to move into subject position, so
+    // these are only reported, at their offsets in the input sentence
+    findPassives(sentence)
+      .filter(passive => !passive.agent)
+      .forEach(passive => {
+        this.changes.push({
+          rule: 'Passive Voice',
+          type: 'clarity',
+          before: sentence,
+          after: sentence,
+          edit: { start: passive.start, end: passive.end, text: passive.text },
+          reason: `Passive "${passive.text}" does not say who acts; consider naming the actor`
+        });
+      });
 
-  private restructureItIs(sentence: string, verb: string): string {
-    const afterThat = sentence.match(/that\s+(.+)/i);
-    if (afterThat) {
-      return afterThat[1].charAt(0).toUpperCase() + afterThat[1].slice(1);
-    }
-    return sentence;
+    return result;
   }
 
   splitLongSentences(text: string): string {
-    const sentences = text.match(/[^.!?]+[.!?]+/g) || [text];
+    const sentences = splitSentences(text);
     const processedSentences: string[] = [];
 
     sentences.forEach(sentence => {
       const trimmed = sentence.trim();
       const wordCount = trimmed.split(/\s+/).length;
 
-      if (wordCount > 25) {
-        const split = this.intelligentSplit(trimmed);
+      if (wordCount > this.config.thresholds.longSentenceWords) {
+        const split = splitClauses(trimmed);
         if (split.length > 1) {
           this.changes.push({
             rule: 'Long Sentence',
@@ -127,44 +109,14 @@ export class ClarityRules {
     return processedSentences.join(' ');
   }
 
-  private intelligentSplit(sentence: string): string[] {
-    const conjunctions = [
-      { pattern: /,\s*and\s+/i, replacement: '. ' },
-      { pattern: /,\s*but\s+/i, replacement: '. However, ' },
-      { pattern: /;\s*/g, replacement: '. ' },
-      { pattern: /,\s*which\s+/i, replacement: '. This ' },
-      { pattern: /,\s*while\s+/i, replacement: '. Meanwhile, ' }
-    ];
-
-    for (const conj of conjunctions) {
-      if (conj.pattern.test(sentence)) {
-        const parts = sentence.split(conj.pattern);
-        if (parts.length === 2 && parts.every(p => p.split(/\s+/).length >= 5)) {
-          return [
-            this.ensureCompleteSentence(parts[0]),
-            this.ensureCompleteSentence(parts[1])
-          ];
-        }
-      }
-    }
-
-    return [sentence];
-  }
-
   separateMultipleIdeas(sentence: string): string[] {
     const clauses = this.countClauses(sentence);
-    if (clauses <= 2) {
+    if (clauses <= this.config.thresholds.maxClauses) {
       return [sentence];
     }
 
-    const connectors = /\s+(and|but|however|moreover|furthermore|additionally|also)\s+/gi;
-    const parts = sentence.split(connectors).filter(part =>
-      part.length > 0 &&
-      !['and', 'but', 'however', 'moreover', 'furthermore', 'additionally', 'also'].includes(part.toLowerCase())
-    );
-
-    if (parts.length > 1) {
-      const separated = parts.map(part => this.ensureCompleteSentence(part.trim()));
+    const separated = splitClauses(sentence);
+    if (separated.length > 1) {
       this.changes.push({
         rule: 'Multiple Ideas',
         type: 'clarity',
@@ -172,10 +124,9 @@ export class ClarityRules {
         after: separated.join(' '),
         reason: 'Separated multiple ideas into individual sentences for clarity'
       });
-      return separated;
     }
 
-    return [sentence];
+    return separated;
   }
 
   private countClauses(sentence: string): number {
@@ -184,68 +135,10 @@ export class ClarityRules {
     return matches ? matches.length + 1 : 1;
   }
 
-  private ensureCompleteSentence(fragment: string): string {
-    let sentence = fragment.trim();
-
-    if (!sentence) return '';
-
-    sentence = sentence.charAt(0).toUpperCase() + sentence.slice(1);
-
-    if (!/[.!?]$/.test(sentence)) {
-      sentence += '.';
-    }
-
-    return sentence;
-  }
-
   simplifyLanguage(text: string): string {
-    const replacements: { [key: string]: string } = {
-      'utilize': 'use',
-      'utilizes': 'uses',
-      'utilized': 'used',
-      'utilizing': 'using',
-      'implement': 'use',
-      'implements': 'uses',
-      'implemented': 'used',
-      'implementing': 'using',
-      'facilitate': 'help',
-      'facilitates': 'helps',
-      'facilitated': 'helped',
-      'demonstrate': 'show',
-      'demonstrates': 'shows',
-      'demonstrated': 'showed',
-      'approximately': 'about',
-      'subsequent': 'next',
-      'prior to': 'before',
-      'in order to': 'to',
-      'due to the fact that': 'because',
-      'in the event that': 'if',
-      'at this point in time': 'now',
-      'in light of the fact that': 'because',
-      'in spite of the fact that': 'although',
-      'for the purpose of': 'to',
-      'with regard to': 'about',
-      'with respect to': 'about',
-      'in terms of': 'about',
-      'on the basis of': 'based on',
-      'as a consequence of': 'because of',
-      'in conjunction with': 'with',
-      'in the vicinity of': 'near',
-      'a number of': 'several',
-      'the majority of': 'most'
-    };
-
-    let result = text;
-    let hasChanges = false;
+    const result = replaceTerms(text, this.config.vocabulary.replacements);
 
-    Object.entries(replacements).forEach(([complex, simple]) => {
-      const regex = new RegExp(`\\b${complex}\\b`, 'gi');
-      const before = result;
-      result = result.replace(regex, simple);
-      if (before !== result) hasChanges = true;
-    });
-
-    if (hasChanges) {
+    if (result !== text) {
       this.changes.push({
         rule: 'Simplified Language',
         type: 'vocabulary',
@@ -257,12 +150,4 @@ export class ClarityRules {
 
     return result;
   }
-
-  getChanges(): Change[] {
-    return this.changes;
-  }
-
-  clearChanges(): void {
-    this.changes = [];
-  }
 }
\ No newline at end of file
@@ -0,0 +1,88 @@
+import { Change, Rule, RuleScope, RuleSelection, Section, WritingEditorConfig } from '../types';
+import { DEFAULT_CONFIG } from '../config';
+
+// Sentence and section rules edit text, document rules the list of sections
+export type RegisteredRule = Rule<string> | Rule<Section[]>;
+
+export abstract class RuleSet {
+  protected changes: Change[] = [];
+
+  constructor(protected config: WritingEditorConfig = DEFAULT_CONFIG) {}
+
+  abstract register(registry: RuleRegistry): void;
+
+  getChanges(): Change[] {
+    return this.changes;
+  }
+
+  clearChanges(): void {
+    this.changes = [];
+  }
+
+  protected probe(text: string, transform: (text: string) => string): boolean {
+    const recorded = this.changes.length;
+    const result = transform(text);
+    this.changes.length = recorded;
+    return result !== text;
+  }
+}
+
+export class RuleRegistry {
+  private rules = new Map<string, RegisteredRule>();
+
+  register<T extends string | Section[] = string>(rule: Rule<T>): void {
+    if (this.rules.has(rule.id)) {
+      throw new Error(`Rule already registered: ${rule.id}`);
+    }
+    this.rules.set(rule.id, rule as RegisteredRule);
+  }
+
+  get(id: string): RegisteredRule | undefined {
+    return this.rules.get(id);
+  }
+
+  list(scope?: RuleScope): RegisteredRule[] {
+    return [...this.rules.values()]
+      .filter(rule => !scope || rule.scope === scope)
+      .sort((a, b) => a.order - b.order);
+  }
+
+  // Enabled rules in pipeline order: those named in `ruleOrder` first, in
+  // that order, then the rest by their default order
+  resolve(selection: RuleSelection, scope: 'sentence' | 'section'): Rule<string>[];
+  resolve(selection?: RuleSelection, scope?: RuleScope): RegisteredRule[];
+  resolve(selection: RuleSelection = {}, scope?: RuleScope): RegisteredRule[] {
+    const enabled = selection.enabledRules ? new Set(this.validate(selection.enabledRules)) : undefined;
+    const disabled = new Set(this.validate(selection.disabledRules || []));
+    const order = this.validate(selection.ruleOrder || []);
+    const rank = (rule: RegisteredRule) => {
+      const index = order.indexOf(rule.id);
+      return index < 0 ? order.length : index;
+    };
+
+    return this.list(scope)
+      .filter(rule => (!enabled || enabled.has(rule.id)) && !disabled.has(rule.id))
+      .sort((a, b) => rank(a) - rank(b));
+  }
+
+  isEnabled(id: string, selection: RuleSelection = {}): boolean {
+    return this.resolve(selection).some(rule => rule.id === id);
+  }
+
+  private validate(ids: string[]): string[] {
+    const unknown = ids.filter(id => !this.rules.has(id));
+    if (unknown.length > 0) {
+      throw new Error(
+        `Unknown rule${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}. ` +
+        `Available rules: ${this.list().map(r => r.id).join(', ')}`
+      );
+    }
+    return ids;
+  }
+}
+
+export function createRuleRegistry(...ruleSets: RuleSet[]): RuleRegistry {
+  const registry = new RuleRegistry();
+  ruleSets.forEach(ruleSet => ruleSet.register(registry));
+  return registry;
+}
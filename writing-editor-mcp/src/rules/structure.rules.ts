@@ -1,15 +1,57 @@
-import { ValidationResult, Section, StructureChecks, Change } from '../types';
+import { ValidationResult, Section, StructureChecks, Change, DocumentFormat, WritingEditorConfig } from '../types';
+import { RuleRegistry, RuleSet } from './registry';
+import { DEFAULT_CONFIG } from '../config';
+import { todoAnnotation } from '../processors/annotations';
+import { AbstractComponent, extractComponents, summarize } from '../processors/summary';
+import { splitSentences } from '../processors/sentences';
+
+const ABSTRACT_COMPONENTS: AbstractComponent[] = ['problem', 'approach', 'result'];
+// Sentences of the paper a too-short abstract may be extended with
+const ABSTRACT_TOP_UP_SENTENCES = 3;
+
+export class StructureRules extends RuleSet {
+  constructor(config: WritingEditorConfig = DEFAULT_CONFIG, private format: DocumentFormat = 'markdown') {
+    super(config);
+  }
 
-export class StructureRules {
-  private changes: Change[] = [];
+  register(registry: RuleRegistry): void {
+    registry.register({
+      id: 'introduction-structure',
+      category: 'structure',
+      scope: 'section',
+      description: 'Ensure the introduction states the problem and contributions',
+      order: 100,
+      apply: text => this.validateIntroduction(text).fixedText,
+      detect: text => this.probe(text, t => this.validateIntroduction(t).fixedText)
+    });
+    registry.register({
+      id: 'abstract-structure',
+      category: 'structure',
+      scope: 'section',
+      description: 'Keep the abstract self-contained and within the configured word range',
+      order: 110,
+      apply: text => this.validateAbstract(text).fixedText,
+      detect: text => this.probe(text, t => this.validateAbstract(t).fixedText)
+    });
+    registry.register<Section[]>({
+      id: 'overview-section',
+      category: 'structure',
+      scope: 'document',
+      description: 'Insert an overview section after the introduction',
+      order: 120,
+      apply: sections => this.insertOverviewSection(sections),
+      detect: sections => !sections.some(s => s.title.toLowerCase().includes('overview'))
+    });
+  }
 
   validateIntroduction(text: string): ValidationResult {
+    const prose = this.withoutAnnotations(text);
     const checks: StructureChecks = {
-      problemInFirstParagraph: this.checkFirstParagraphProblem(text),
-      hasContributions: text.toLowerCase().includes('contribution'),
-      avoidGrandmothering: !this.hasObviousStatements(text),
-      hasSilverBullet: this.identifiesKeyIdea(text),
-      comparesApproaches: this.mentionsAlternatives(text)
+      problemInFirstParagraph: this.checkFirstParagraphProblem(prose),
+      hasContributions: prose.toLowerCase().includes('contribution'),
+      avoidGrandmothering: !this.hasObviousStatements(prose),
+      hasSilverBullet: this.identifiesKeyIdea(prose),
+      comparesApproaches: this.mentionsAlternatives(prose)
     };
 
     const issues: string[] = [];
@@ -96,16 +138,22 @@ export class StructureRules {
 
     if (!checks.problemInFirstParagraph) {
       const paragraphs = fixed.split(/\n\n+/);
-      if (paragraphs.length > 0) {
+      if (this.config.structure.generateText) {
         const problemStatement = this.generateProblemStatement(paragraphs[0]);
         paragraphs[0] = problemStatement + ' ' + paragraphs[0];
+      } else {
+        paragraphs.unshift(this.annotate('state the problem this work addresses in the first paragraph', 'introduction-structure'));
+      }
+      if (!text.includes(paragraphs[0])) {
         fixed = paragraphs.join('\n\n');
         this.changes.push({
           rule: 'Introduction Structure',
           type: 'structure',
           before: text,
           after: fixed,
-          reason: 'Added problem statement to first paragraph'
+          reason: this.config.structure.generateText
+            ? 'Added problem statement to first paragraph'
+            : 'Marked where the problem statement is missing'
         });
       }
     }
@@ -139,23 +187,28 @@ export class StructureRules {
     return technicalWords.slice(0, 3);
   }
 
+  // After the problem statement, i.e. the first prose paragraph
   private addContributionsSection(text: string): string {
-    const contributionText = '\n\nThe main contributions of this work are: First, we provide a novel approach. Second, we demonstrate improved performance. Third, we validate through extensive evaluation.\n\n';
+    const contributionText = this.config.structure.generateText
+      ? 'The main contributions of this work are: First, we provide a novel approach. Second, we demonstrate improved performance. Third, we validate through extensive evaluation.'
+      : this.annotate('state the contributions of this work', 'introduction-structure');
+    if (text.includes(contributionText)) return text;
 
     const paragraphs = text.split(/\n\n+/);
-    if (paragraphs.length >= 2) {
-      paragraphs.splice(1, 0, contributionText);
-      this.changes.push({
-        rule: 'Contributions Section',
-        type: 'structure',
-        before: text,
-        after: paragraphs.join('\n\n'),
-        reason: 'Added explicit contributions section'
-      });
-      return paragraphs.join('\n\n');
-    }
-
-    return text + contributionText;
+    const problem = paragraphs.findIndex(paragraph => !this.isAnnotation(paragraph));
+    paragraphs.splice(problem + 1, 0, contributionText);
+    const fixed = paragraphs.join('\n\n');
+
+    this.changes.push({
+      rule: 'Contributions Section',
+      type: 'structure',
+      before: text,
+      after: fixed,
+      reason: this.config.structure.generateText
+        ? 'Added explicit contributions section'
+        : 'Marked where the contributions should be stated'
+    });
+    return fixed;
   }
 
   private removeObviousStatements(text: string): string {
@@ -177,7 +230,7 @@ export class StructureRules {
     });
 
     if (hasChanges) {
-      fixed = fixed.replace(/\s+/g, ' ').trim();
+      fixed = fixed.replace(/[ \t]{2,}/g, ' ').replace(/[ \t]+$/gm, '').replace(/^[ \t]+/gm, '').trim();
       this.changes.push({
         rule: 'Remove Obvious Statements',
         type: 'structure',
@@ -190,14 +243,16 @@ export class StructureRules {
     return fixed;
   }
 
-  validateAbstract(text: string): ValidationResult {
-    const wordCount = text.split(/\s+/).length;
+  validateAbstract(text: string, document: Section[] = []): ValidationResult {
+    const prose = this.withoutAnnotations(text);
+    const wordCount = prose.split(/\s+/).length;
+    const { abstractMinWords, abstractMaxWords } = this.config.thresholds;
     const checks: StructureChecks = {
-      independent: !text.includes('this paper') &&
-                  !text.includes('we present') &&
-                  !text.includes('this work'),
-      selfContained: this.hasAllComponents(text, ['problem', 'approach', 'result']),
-      correctLength: wordCount >= 100 && wordCount <= 250
+      independent: !prose.includes('this paper') &&
+                  !prose.includes('we present') &&
+                  !prose.includes('this work'),
+      selfContained: this.hasAllComponents(prose, ABSTRACT_COMPONENTS),
+      correctLength: wordCount >= abstractMinWords && wordCount <= abstractMaxWords
     };
 
     const issues: string[] = [];
@@ -208,10 +263,10 @@ export class StructureRules {
       issues.push('Abstract must include problem, approach, and results');
     }
     if (!checks.correctLength) {
-      issues.push(`Abstract should be 100-250 words (currently ${wordCount} words)`);
+      issues.push(`Abstract should be ${abstractMinWords}-${abstractMaxWords} words (currently ${wordCount} words)`);
     }
 
-    const fixedText = this.restructureAbstract(text, checks);
+    const fixedText = this.restructureAbstract(text, checks, document);
 
     return {
       valid: Object.values(checks).every(v => v),
@@ -238,53 +293,136 @@ export class StructureRules {
     return synonymMap[word] || [word];
   }
 
-  private restructureAbstract(text: string, checks: StructureChecks): string {
+  private restructureAbstract(text: string, checks: StructureChecks, document: Section[]): string {
     let fixed = text;
 
     fixed = fixed.replace(/this paper/gi, 'this research');
     fixed = fixed.replace(/we present/gi, 'introduces');
     fixed = fixed.replace(/this work/gi, 'the study');
 
+    const sources = this.summarySources(document);
+
+    // The author's text comes first, then the drafted components
     if (!checks.selfContained) {
-      const components = this.generateAbstractComponents(text);
-      fixed = `${components.problem} ${components.approach} ${components.results}`;
+      const prose = this.withoutAnnotations(fixed);
+      const missing = ABSTRACT_COMPONENTS.filter(component => !this.hasAllComponents(prose, [component]));
+      const drafted = this.draftComponents(sources, missing);
+
+      if (missing.some(component => drafted[component])) {
+        const before = fixed;
+        const body = [prose, drafted.problem, drafted.approach, drafted.result].filter(Boolean).join(' ');
+        fixed = [body, ...this.annotationsOf(fixed)].join('\n\n');
+        this.changes.push({
+          rule: 'Abstract Structure',
+          type: 'structure',
+          before,
+          after: fixed,
+          reason: `Drafted the abstract's ${listWords(componentLabels(missing.filter(c => drafted[c])))} from sentences of the document`,
+          generated: true
+        });
+      }
+    }
+
+    const { abstractMinWords, abstractMaxWords } = this.config.thresholds;
+    const prose = this.withoutAnnotations(fixed);
+    const wordCount = prose.split(/\s+/).length;
+    const generate = this.config.structure.generateText;
+
+    // Drafts reuse the author's sentences: the best-ranked ones of the
+    // abstract when it is too long, a few of the rest of the paper when too
+    // short
+    const draft = !generate ? [] : wordCount > abstractMaxWords
+      ? summarize([{ title: 'Abstract', content: prose }], { maxWords: abstractMaxWords }, this.format)
+      : wordCount < abstractMinWords
+        ? summarize(sources, {
+          minWords: abstractMinWords - wordCount,
+          maxWords: abstractMaxWords - wordCount,
+          maxSentences: ABSTRACT_TOP_UP_SENTENCES
+        }, this.format, splitSentences(prose))
+        : [];
+
+    if (draft.length > 0) {
+      const before = fixed;
+      const body = wordCount > abstractMaxWords ? draft.join(' ') : `${prose} ${draft.join(' ')}`;
+      fixed = [body, ...this.annotationsOf(fixed)].join('\n\n');
       this.changes.push({
-        rule: 'Abstract Structure',
+        rule: 'Abstract Length',
         type: 'structure',
-        before: text,
+        before,
         after: fixed,
-        reason: 'Restructured abstract to include all required components'
+        reason: wordCount > abstractMaxWords
+          ? `Kept the highest-ranked abstract sentences to meet the ${abstractMaxWords}-word limit`
+          : `Extended the abstract with the highest-ranked sentences of the document toward ${abstractMinWords} words`,
+        generated: true
       });
     }
 
-    const words = fixed.split(/\s+/);
-    if (words.length > 250) {
-      fixed = words.slice(0, 250).join(' ') + '.';
+    const length = this.withoutAnnotations(fixed).split(/\s+/).length;
+    if (length > abstractMaxWords || length < abstractMinWords) {
+      const note = this.annotate(
+        length > abstractMaxWords
+          ? `shorten the abstract to at most ${abstractMaxWords} words`
+          : `expand the abstract to at least ${abstractMinWords} words`,
+        'abstract-structure'
+      );
+      if (!fixed.includes(note)) {
+        const before = fixed;
+        fixed = `${fixed}\n\n${note}`;
+        this.changes.push({
+          rule: 'Abstract Length',
+          type: 'structure',
+          before,
+          after: fixed,
+          reason: `Marked that the abstract has ${length} words, outside the ${abstractMinWords}-${abstractMaxWords} word range`
+        });
+      }
+    }
+
+    // Only what neither the author nor a draft has stated is marked missing
+    const unresolved = ABSTRACT_COMPONENTS.filter(component => !this.hasAllComponents(this.withoutAnnotations(fixed), [component]));
+    const note = this.annotate(`state the ${listWords(componentLabels(unresolved))} in the abstract`, 'abstract-structure');
+    if (unresolved.length > 0 && !fixed.includes(note)) {
+      const before = fixed;
+      fixed = `${fixed}\n\n${note}`;
       this.changes.push({
-        rule: 'Abstract Length',
+        rule: 'Abstract Structure',
         type: 'structure',
-        before: text,
+        before,
         after: fixed,
-        reason: 'Shortened abstract to meet 250-word limit'
+        reason: `Marked the missing abstract components (${componentLabels(unresolved).join(', ')})`
       });
-    } else if (words.length < 100) {
-      fixed = this.expandAbstract(fixed);
     }
 
     return fixed;
   }
 
-  private generateAbstractComponents(text: string): { problem: string; approach: string; results: string } {
-    return {
-      problem: 'This research addresses a significant challenge in the field.',
-      approach: 'A novel approach is proposed that combines innovative techniques.',
-      results: 'Evaluation demonstrates substantial improvements over existing methods.'
-    };
+  /**
+   * An abstract for a document that has none: its problem, approach and
+   * result sentences when `structure.generateText` is set, with a TODO
+   * annotation for whatever the document does not state.
+   */
+  draftAbstract(document: Section[]): string {
+    const drafted = this.draftComponents(this.summarySources(document), ABSTRACT_COMPONENTS);
+    const unresolved = ABSTRACT_COMPONENTS.filter(component => !drafted[component]);
+    const body = ABSTRACT_COMPONENTS.map(component => drafted[component]).filter(Boolean).join(' ');
+    const note = unresolved.length === ABSTRACT_COMPONENTS.length
+      ? this.annotate('write an abstract stating the problem, approach and results', 'abstract-structure')
+      : this.annotate(`state the ${listWords(componentLabels(unresolved))} in the abstract`, 'abstract-structure');
+    return [body, unresolved.length > 0 ? note : ''].filter(Boolean).join('\n\n');
   }
 
-  private expandAbstract(text: string): string {
-    const expansion = ' The comprehensive evaluation validates the effectiveness of the proposed approach through rigorous testing and comparison with state-of-the-art methods.';
-    return text + expansion;
+  // The abstract and overview restate the rest of the paper, so drafts
+  // never quote them
+  private summarySources(document: Section[]): Section[] {
+    return document.filter(section => !/abstract|overview/i.test(section.title));
+  }
+
+  // Sentences are taken from the document only when asked to write text
+  private draftComponents(document: Section[], components: AbstractComponent[]): { [component in AbstractComponent]?: string } {
+    if (!this.config.structure.generateText || components.length === 0) return {};
+    const cues: { [component in AbstractComponent]?: string[] } = {};
+    components.forEach(component => (cues[component] = this.getSynonyms(component)));
+    return extractComponents(document, cues, this.format);
   }
 
   insertOverviewSection(sections: Section[]): Section[] {
@@ -294,40 +432,54 @@ export class StructureRules {
 
     if (!hasOverview) {
       const overviewIndex = this.findOverviewPosition(sections);
-      const overview = this.generateOverview(sections);
+      const overview = this.generateOverview(sections, overviewIndex);
       sections.splice(overviewIndex, 0, overview);
 
       this.changes.push({
         rule: 'Overview Section',
         type: 'structure',
         before: 'No overview section',
-        after: 'Added overview section',
-        reason: 'Inserted overview section for better document structure'
+        after: overview.content,
+        reason: this.config.structure.generateText
+          ? 'Inserted an overview summarizing each section with its key sentence'
+          : 'Inserted an overview section for the author to fill in',
+        generated: this.config.structure.generateText || undefined
       });
     }
 
     return sections;
   }
 
+  // After the introduction and its subsections, else after the abstract
   private findOverviewPosition(sections: Section[]): number {
-    const positions = ['introduction', 'abstract'];
-    for (let i = 0; i < sections.length; i++) {
-      if (positions.some(pos => sections[i].title.toLowerCase().includes(pos))) {
-        return i + 1;
-      }
+    for (const position of ['introduction', 'abstract']) {
+      const i = sections.findIndex(s => s.title.toLowerCase().includes(position));
+      if (i < 0) continue;
+      const depth = sections[i].depth ?? 0;
+      const next = sections.findIndex((s, j) => j > i && (s.depth ?? 0) <= depth);
+      return next < 0 ? sections.length : next;
     }
-    return 1;
+    return Math.min(1, sections.length);
   }
 
-  private generateOverview(sections: Section[]): Section {
-    const sectionNames = sections
-      .filter(s => !s.title.toLowerCase().includes('abstract'))
-      .map(s => s.title)
-      .slice(0, 5);
+  private generateOverview(sections: Section[], position: number): Section {
+    if (!this.config.structure.generateText) {
+      const content = this.annotate('summarize how the document is organized', 'overview-section');
+      return { title: 'Overview', content, edited: content };
+    }
+
+    const entries = this.numberSections(sections, position)
+      .filter(entry => entry.index >= position)
+      .map(({ number, members }) => {
+        const [sentence] = summarize(members, { maxWords: 60, maxSentences: 1 }, this.format);
+        return sentence
+          ? `Section ${number}, ${members[0].title}: ${sentence}`
+          : `Section ${number}: ${members[0].title}.`;
+      });
 
-    const content = `This document is organized as follows. ${sectionNames.map((name, i) =>
-      `Section ${i + 2} covers ${name.toLowerCase()}`
-    ).join('. ')}. The document concludes with a summary of key findings and future directions.`;
+    const content = entries.length > 0
+      ? `The rest of this document is organized as follows. ${entries.join(' ')}`
+      : this.annotate('summarize how the document is organized', 'overview-section');
 
     return {
       title: 'Overview',
@@ -336,11 +488,54 @@ export class StructureRules {
     };
   }
 
-  getChanges(): Change[] {
-    return this.changes;
+  // Top-level sections with their subsections and the number they carry
+  // once the overview is inserted at `position`: the one written in a
+  // Markdown heading ("3 Method"), else their place among the top-level
+  // sections, as LaTeX counts them. Text before the first heading and the
+  // abstract are not numbered.
+  private numberSections(sections: Section[], position: number): { index: number; number: string; members: Section[] }[] {
+    const numbered = (s: Section) => !!s.depth && !s.title.toLowerCase().includes('abstract');
+    const top = Math.min(...sections.filter(numbered).map(s => s.depth!));
+    const entries: { index: number; number: string; members: Section[] }[] = [];
+    let ordinal = 0;
+
+    sections.forEach((section, index) => {
+      if (!numbered(section)) return;
+      if (section.depth! > top && entries.length > 0) {
+        entries[entries.length - 1].members.push(section);
+        return;
+      }
+      ordinal++;
+      const written = this.format === 'markdown' ? section.number : undefined;
+      entries.push({ index, number: written ?? String(index >= position ? ordinal + 1 : ordinal), members: [section] });
+    });
+
+    return entries;
+  }
+
+  private annotate(message: string, ruleId: string): string {
+    return todoAnnotation(message, ruleId, this.format);
+  }
+
+  private isAnnotation(paragraph: string): boolean {
+    return /^(?:<!--\s*TODO \[[\w-]+\]:[\s\S]*-->|% TODO \[[\w-]+\]:.*)$/.test(paragraph.trim());
   }
 
-  clearChanges(): void {
-    this.changes = [];
+  // Checks run on the author's text only, so a second pass does not count
+  // its own notes as content
+  private withoutAnnotations(text: string): string {
+    return text.split(/\n\n+/).filter(paragraph => !this.isAnnotation(paragraph)).join('\n\n');
   }
+
+  private annotationsOf(text: string): string[] {
+    return text.split(/\n\n+/).filter(paragraph => this.isAnnotation(paragraph));
+  }
+}
+
+function componentLabels(components: AbstractComponent[]): string[] {
+  return components.map(component => (component === 'result' ? 'results' : component));
+}
+
+function listWords(words: string[]): string {
+  return words.length > 1 ? `${words.slice(0, -1).join(', ')} and ${words[words.length - 1]}` : words.join('');
 }
\ No newline at end of file
@@ -1,44 +1,85 @@
 import { Change } from '../types';
-
-export class StyleRules {
-  private changes: Change[] = [];
+import { RuleRegistry, RuleSet } from './registry';
+import { termPattern } from '../vocabulary/packs';
+import { replaceTerms } from '../vocabulary/replace';
+import { toPresentTense } from '../processors/tense';
+
+export class StyleRules extends RuleSet {
+  register(registry: RuleRegistry): void {
+    registry.register({
+      id: 'forbidden-vocabulary',
+      category: 'vocabulary',
+      scope: 'sentence',
+      description: 'Remove forbidden vocabulary such as "therefore" and "It should be noted that"',
+      order: 40,
+      apply: text => this.cleanVocabulary(text),
+      detect: text => this.probe(text, t => this.cleanVocabulary(t))
+    });
+    registry.register({
+      id: 'tense',
+      category: 'style',
+      scope: 'sentence',
+      description: 'Convert future tense to present tense',
+      order: 50,
+      apply: text => this.fixTense(text),
+      detect: text => this.probe(text, t => this.fixTense(t))
+    });
+    registry.register({
+      id: 'redundancy',
+      category: 'style',
+      scope: 'sentence',
+      description: 'Eliminate redundant phrases',
+      order: 60,
+      apply: text => this.removeRedundancy(text),
+      detect: text => this.probe(text, t => this.removeRedundancy(t))
+    });
+    registry.register({
+      id: 'active-writing',
+      category: 'style',
+      scope: 'sentence',
+      description: 'Replace weak verb constructions with active alternatives',
+      order: 70,
+      apply: text => this.enforceActiveWriting(text),
+      detect: text => this.probe(text, t => this.enforceActiveWriting(t))
+    });
+    registry.register({
+      id: 'parentheticals',
+      category: 'style',
+      scope: 'sentence',
+      description: 'Integrate parenthetical content and footnote markers into the sentence',
+      order: 80,
+      apply: text => this.removeParentheticals(text),
+      detect: text => this.probe(text, t => this.removeParentheticals(t))
+    });
+  }
 
   cleanVocabulary(text: string): string {
-    const forbidden = [
-      'paradigm',
-      'framework',
-      'thus',
-      'therefore',
-      'hence',
-      'Note that',
-      'It should be noted that',
-      'It is worth noting that',
-      'It is important to note that',
-      'In this paper',
-      'In this work',
-      'In this study',
-      'aforementioned',
-      'hereby',
-      'heretofore',
-      'henceforth',
-      'whilst',
-      'amongst',
-      'albeit'
-    ];
-
     let result = text;
     let hasChanges = false;
 
+    // Longer terms first, so "It is important to note that" goes whole
+    // before "Note that" can match inside it. A term set off like a
+    // connective goes with its commas: "; therefore, the" -> "; the",
+    // "We, therefore, stop" -> "We stop"; elsewhere the commas stay.
+    const forbidden = [...this.config.vocabulary.forbidden].sort((a, b) => b.length - a.length);
     forbidden.forEach(term => {
-      const regex = new RegExp(`\\b${term}\\b`, 'gi');
+      const regex = new RegExp(`([,;:])?(\\s*)${termPattern(term).source}(\\s*,)?`, 'gi');
       const before = result;
-      result = result.replace(regex, '');
+      result = result.replace(regex, (_match, punctuation: string | undefined, space: string, comma: string | undefined, offset: number, input: string) => {
+        const setOff = punctuation !== undefined || input.slice(0, offset).trim() === '';
+        if (comma && setOff) return punctuation && punctuation !== ',' ? `${punctuation} ` : ' ';
+        return (punctuation ?? '') + space + (comma ?? '');
+      });
       if (before !== result) hasChanges = true;
     });
 
     result = result.replace(/\s+/g, ' ').replace(/\s+([.,!?;:])/g, '$1');
-    result = result.replace(/^\s*[.,;]\s*/, '');
+    result = result.replace(/^\s*[.,;]?\s*/, '');
     result = result.replace(/\.\s*\./g, '.');
+    // "Therefore, we ..." -> "We ..."
+    if (hasChanges && /^[A-Z]/.test(text.trimStart())) {
+      result = result.charAt(0).toUpperCase() + result.slice(1);
+    }
 
     if (hasChanges) {
       this.changes.push({
@@ -54,47 +95,9 @@ export class StyleRules {
   }
 
   fixTense(text: string): string {
-    const futurePatterns = [
-      {
-        pattern: /\bwe\s+will\s+(\w+)/gi,
-        replacement: (match: string, verb: string) => `we ${verb}`
-      },
-      {
-        pattern: /\bwill\s+be\s+(\w+ing)/gi,
-        replacement: (match: string, verb: string) => `${verb}`
-      },
-      {
-        pattern: /\bwill\s+(\w+)/gi,
-        replacement: (match: string, verb: string) => {
-          if (verb === 'be') return 'is';
-          if (verb.endsWith('e')) return verb + 's';
-          return verb + 's';
-        }
-      },
-      {
-        pattern: /\bshall\s+(\w+)/gi,
-        replacement: (match: string, verb: string) => verb
-      },
-      {
-        pattern: /\bis\s+going\s+to\s+(\w+)/gi,
-        replacement: (match: string, verb: string) => verb + 's'
-      },
-      {
-        pattern: /\bare\s+going\s+to\s+(\w+)/gi,
-        replacement: (match: string, verb: string) => verb
-      }
-    ];
-
-    let result = text;
-    let hasChanges = false;
-
-    futurePatterns.forEach(rule => {
-      const before = result;
-      result = result.replace(rule.pattern, rule.replacement as any);
-      if (before !== result) hasChanges = true;
-    });
+    const result = toPresentTense(text) ?? text;
 
-    if (hasChanges) {
+    if (result !== text) {
       this.changes.push({
         rule: 'Tense Correction',
         type: 'style',
@@ -155,69 +158,9 @@ export class StyleRules {
   }
 
   removeRedundancy(text: string): string {
-    const redundantPhrases: { [key: string]: string } = {
-      'absolutely essential': 'essential',
-      'absolutely necessary': 'necessary',
-      'actual fact': 'fact',
-      'added bonus': 'bonus',
-      'advance planning': 'planning',
-      'advance warning': 'warning',
-      'all-time record': 'record',
-      'basic fundamentals': 'fundamentals',
-      'brief summary': 'summary',
-      'close proximity': 'proximity',
-      'combine together': 'combine',
-      'completely eliminate': 'eliminate',
-      'consensus of opinion': 'consensus',
-      'continue on': 'continue',
-      'each and every': 'each',
-      'end result': 'result',
-      'exactly the same': 'the same',
-      'final outcome': 'outcome',
-      'first and foremost': 'first',
-      'free gift': 'gift',
-      'future plans': 'plans',
-      'general consensus': 'consensus',
-      'joint collaboration': 'collaboration',
-      'major breakthrough': 'breakthrough',
-      'merge together': 'merge',
-      'mutual cooperation': 'cooperation',
-      'new innovation': 'innovation',
-      'null and void': 'void',
-      'past experience': 'experience',
-      'past history': 'history',
-      'period of time': 'period',
-      'personal opinion': 'opinion',
-      'plan ahead': 'plan',
-      'positive improvement': 'improvement',
-      'postpone until later': 'postpone',
-      'reduce down': 'reduce',
-      'refer back': 'refer',
-      'repeat again': 'repeat',
-      'revert back': 'revert',
-      'same exact': 'same',
-      'serious crisis': 'crisis',
-      'still remains': 'remains',
-      'sudden impulse': 'impulse',
-      'sum total': 'total',
-      'true fact': 'fact',
-      'unexpected surprise': 'surprise',
-      'unintentional mistake': 'mistake',
-      'various different': 'various',
-      'very unique': 'unique'
-    };
-
-    let result = text;
-    let hasChanges = false;
-
-    Object.entries(redundantPhrases).forEach(([redundant, concise]) => {
-      const regex = new RegExp(`\\b${redundant}\\b`, 'gi');
-      const before = result;
-      result = result.replace(regex, concise);
-      if (before !== result) hasChanges = true;
-    });
+    const result = replaceTerms(text, this.config.vocabulary.redundant);
 
-    if (hasChanges) {
+    if (result !== text) {
       this.changes.push({
         rule: 'Redundancy Removed',
         type: 'style',
@@ -231,34 +174,9 @@ export class StyleRules {
   }
 
   enforceActiveWriting(text: string): string {
-    const weakVerbs: { [key: string]: string } = {
-      'is able to': 'can',
-      'are able to': 'can',
-      'was able to': 'could',
-      'were able to': 'could',
-      'has the ability to': 'can',
-      'have the ability to': 'can',
-      'is capable of': 'can',
-      'are capable of': 'can',
-      'serves to': '',
-      'serves as': 'is',
-      'functions as': 'is',
-      'acts as': 'is'
-    };
-
-    let result = text;
-    let hasChanges = false;
+    const result = replaceTerms(text, this.config.vocabulary.weakVerbs);
 
-    Object.entries(weakVerbs).forEach(([weak, strong]) => {
-      const regex = new RegExp(`\\b${weak}\\b`, 'gi');
-      const before = result;
-      result = result.replace(regex, strong);
-      if (before !== result) hasChanges = true;
-    });
-
-    result = result.replace(/\s+/g, ' ').trim();
-
-    if (hasChanges) {
+    if (result !== text) {
       this.changes.push({
         rule: 'Active Writing',
         type: 'style',
@@ -270,12 +188,4 @@ export class StyleRules {
 
     return result;
   }
-
-  getChanges(): Change[] {
-    return this.changes;
-  }
-
-  clearChanges(): void {
-    this.changes = [];
-  }
 }
\ No newline at end of file
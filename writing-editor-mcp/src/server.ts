@@ -10,6 +10,12 @@ import {
 import { editDocument } from './tools/editDocument.js';
 import { analyzeStructure } from './tools/analyzeStructure.js';
 import { checkClarity } from './tools/checkClarity.js';
+import { applyChanges } from './tools/applyChanges.js';
+import { exportDocx } from './tools/exportDocx.js';
+import { DEFAULT_CONFIG, loadConfig } from './config.js';
+import { DiffFormat, DocumentFormat, RuleSelection, WritingEditorConfig } from './types.js';
+
+let config: WritingEditorConfig = DEFAULT_CONFIG;
 
 const server = new Server(
   {
@@ -23,6 +29,75 @@ const server = new Server(
   }
 );
 
+const ruleSelectionProperties = {
+  enabledRules: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Only run these rule ids (e.g. "passive-voice", "tense")'
+  },
+  disabledRules: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Skip these rule ids (e.g. "forbidden-vocabulary", "parentheticals")'
+  },
+  ruleOrder: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Run these rule ids first, in this order; the others follow in their default order'
+  }
+};
+
+const formatProperty = {
+  format: {
+    type: 'string',
+    enum: ['markdown', 'latex'],
+    description: 'Source format of the text; LaTeX commands, math, comments and citations are never edited',
+    default: 'markdown'
+  }
+};
+
+const generateTextProperty = {
+  generateText: {
+    type: 'boolean',
+    description: 'Draft missing structure (abstract and overview from the document\'s own sentences) instead of inserting TODO annotations',
+    default: false
+  }
+};
+
+function getRuleSelection(args: Record<string, unknown>): RuleSelection {
+  return {
+    enabledRules: args.enabledRules as string[] | undefined,
+    disabledRules: args.disabledRules as string[] | undefined,
+    ruleOrder: args.ruleOrder as string[] | undefined
+  };
+}
+
+// Per-call override of the `structure.generateText` setting
+function getConfig(args: Record<string, unknown>): WritingEditorConfig {
+  if (args.generateText === undefined) return config;
+  if (typeof args.generateText !== 'boolean') {
+    throw new Error('generateText must be a boolean');
+  }
+  return { ...config, structure: { ...config.structure, generateText: args.generateText } };
+}
+
+function getFormat(args: Record<string, unknown>): DocumentFormat {
+  const format = args.format ?? 'markdown';
+  if (format !== 'markdown' && format !== 'latex') {
+    throw new Error(`Unknown format: ${format}. Expected "markdown" or "latex"`);
+  }
+  return format;
+}
+
+function getDiffFormat(args: Record<string, unknown>): DiffFormat | undefined {
+  const diffFormat = args.diffFormat;
+  if (diffFormat === undefined) return undefined;
+  if (diffFormat !== 'inline' && diffFormat !== 'unified' && diffFormat !== 'html') {
+    throw new Error(`Unknown diffFormat: ${diffFormat}. Expected "inline", "unified" or "html"`);
+  }
+  return diffFormat;
+}
+
 server.setRequestHandler(ListToolsRequestSchema, async () => {
   return {
     tools: [
@@ -44,10 +119,73 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             },
             outputFormat: {
               type: 'string',
-              enum: ['tracked_changes', 'clean', 'both'],
-              description: 'Output format for the edited document',
+              enum: ['tracked_changes', 'clean', 'both', 'diagnostics', 'criticmarkup', 'latexdiff'],
+              description: 'Output format for the edited document; "diagnostics" reports findings with positions and proposed replacements without editing the text; "criticmarkup" returns the document with each edit marked in CriticMarkup and its reason as a comment; "latexdiff" (LaTeX only) returns compilable source with edits marked by \\DIFdel{} and \\DIFadd{} as latexdiff does',
               default: 'tracked_changes'
-            }
+            },
+            diffFormat: {
+              type: 'string',
+              enum: ['inline', 'unified', 'html'],
+              description: 'Also return a word-level diff of the document: Markdown with ~~deleted~~ and **inserted** words, a unified diff, or a side-by-side HTML table'
+            },
+            ...formatProperty,
+            ...ruleSelectionProperties,
+            ...generateTextProperty
+          },
+          required: ['text']
+        }
+      },
+      {
+        name: 'apply_changes',
+        description: 'Apply only the accepted changes (by id, as returned by edit_document) to the original text',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            text: {
+              type: 'string',
+              description: 'The original, unedited text'
+            },
+            acceptedChangeIds: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Ids of the changes to keep; all other changes are rejected'
+            },
+            documentType: {
+              type: 'string',
+              enum: ['full_paper', 'section', 'paragraph', 'abstract'],
+              description: 'Type of document, as passed to edit_document',
+              default: 'section'
+            },
+            ...formatProperty,
+            ...ruleSelectionProperties,
+            ...generateTextProperty
+          },
+          required: ['text', 'acceptedChangeIds']
+        }
+      },
+      {
+        name: 'export_docx',
+        description: 'Edit the text and save it as a Word document in which every edit is a tracked change with its reason as a comment',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            text: {
+              type: 'string',
+              description: 'The text to edit'
+            },
+            documentType: {
+              type: 'string',
+              enum: ['full_paper', 'section', 'paragraph', 'abstract'],
+              description: 'Type of document being edited',
+              default: 'section'
+            },
+            outputPath: {
+              type: 'string',
+              description: 'Where to write the .docx file; defaults to a timestamped file in ./edits'
+            },
+            ...formatProperty,
+            ...ruleSelectionProperties,
+            ...generateTextProperty
           },
           required: ['text']
         }
@@ -66,7 +204,9 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: 'array',
               items: { type: 'string' },
               description: 'Optional list of expected sections'
-            }
+            },
+            ...formatProperty,
+            ...generateTextProperty
           },
           required: ['text']
         }
@@ -80,7 +220,20 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             text: {
               type: 'string',
               description: 'The text to analyze for clarity'
-            }
+            },
+            sentenceReport: {
+              type: 'boolean',
+              description: 'Also report every sentence (offsets, words, grade level, clauses, passive voice, complex words, jargon, severity) and a heatmap highlighting hard sentences',
+              default: false
+            },
+            heatmapFormat: {
+              type: 'string',
+              enum: ['markdown', 'html'],
+              description: 'Format of the heatmap rendered with sentenceReport',
+              default: 'markdown'
+            },
+            ...formatProperty,
+            ...ruleSelectionProperties
           },
           required: ['text']
         }
@@ -99,7 +252,10 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: 'string',
               enum: ['introduction', 'abstract', 'overview', 'conclusion', 'technical', 'results'],
               description: 'Type of section to optimize'
-            }
+            },
+            ...formatProperty,
+            ...ruleSelectionProperties,
+            ...generateTextProperty
           },
           required: ['text', 'sectionType']
         }
@@ -121,7 +277,50 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const result = await editDocument(
           args.text as string,
           args.documentType as string || 'section',
-          args.outputFormat as string || 'tracked_changes'
+          args.outputFormat as string || 'tracked_changes',
+          getRuleSelection(args),
+          getConfig(args),
+          getFormat(args),
+          undefined,
+          getDiffFormat(args)
+        );
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'apply_changes': {
+        const result = await applyChanges(
+          args.text as string,
+          args.acceptedChangeIds as string[],
+          args.documentType as string || 'section',
+          getRuleSelection(args),
+          getConfig(args),
+          getFormat(args)
+        );
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2)
+            }
+          ]
+        };
+      }
+
+      case 'export_docx': {
+        const result = await exportDocx(
+          args.text as string,
+          args.documentType as string || 'section',
+          getRuleSelection(args),
+          getConfig(args),
+          getFormat(args),
+          args.outputPath as string | undefined
         );
         return {
           content: [
@@ -136,7 +335,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       case 'analyze_structure': {
         const result = await analyzeStructure(
           args.text as string,
-          args.expectedSections as string[] | undefined
+          args.expectedSections as string[] | undefined,
+          getConfig(args),
+          getFormat(args)
         );
         return {
           content: [
@@ -149,7 +350,14 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'check_clarity_metrics': {
-        const result = await checkClarity(args.text as string);
+        const heatmapFormat = args.heatmapFormat ?? 'markdown';
+        if (heatmapFormat !== 'markdown' && heatmapFormat !== 'html') {
+          throw new Error(`Unknown heatmapFormat: ${heatmapFormat}. Expected "markdown" or "html"`);
+        }
+        const result = await checkClarity(args.text as string, getRuleSelection(args), config, getFormat(args), {
+          sentences: args.sentenceReport === true,
+          heatmapFormat
+        });
         return {
           content: [
             {
@@ -174,7 +382,10 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const result = await editDocument(
           args.text as string,
           documentType,
-          'both'
+          'both',
+          getRuleSelection(args),
+          getConfig(args),
+          getFormat(args)
         );
 
         const optimized = {
@@ -212,7 +423,21 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   }
 });
 
+function getConfigPath(argv: string[]): string | undefined {
+  const index = argv.indexOf('--config');
+  if (index !== -1) {
+    return argv[index + 1];
+  }
+  const inline = argv.find(arg => arg.startsWith('--config='));
+  if (inline) {
+    return inline.slice('--config='.length);
+  }
+  return process.env.WRITING_EDITOR_CONFIG;
+}
+
 async function main() {
+  config = await loadConfig(getConfigPath(process.argv.slice(2)));
+
   const transport = new StdioServerTransport();
   await server.connect(transport);
 
@@ -0,0 +1,5 @@
+// text-readability ships without type declarations
+declare module 'text-readability/easy_words.js' {
+  const easyWords: string[];
+  export default easyWords;
+}
\ No newline at end of file
@@ -0,0 +1,42 @@
+import { Change, DocumentFormat, RuleSelection, WritingEditorConfig } from '../types';
+import { editDocument } from './editDocument';
+import { DEFAULT_CONFIG } from '../config';
+
+interface ApplyChangesResult {
+  document: string;
+  applied: Change[];
+  unmatchedChangeIds: string[];
+  tracking?: string;
+}
+
+export async function applyChanges(
+  text: string,
+  acceptedChangeIds: string[],
+  documentType: string = 'section',
+  selection: RuleSelection = {},
+  config: WritingEditorConfig = DEFAULT_CONFIG,
+  format: DocumentFormat = 'markdown'
+): Promise<ApplyChangesResult> {
+  const accepted = new Set(acceptedChangeIds);
+  const seen = new Set<string>();
+
+  const result = await editDocument(
+    text,
+    documentType,
+    'tracked_changes',
+    selection,
+    config,
+    format,
+    id => {
+      seen.add(id);
+      return accepted.has(id);
+    }
+  );
+
+  return {
+    document: result.edited,
+    applied: result.changes || [],
+    unmatchedChangeIds: acceptedChangeIds.filter(id => !seen.has(id)),
+    tracking: result.tracking
+  };
+}
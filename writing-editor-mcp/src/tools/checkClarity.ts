@@ -1,5 +1,21 @@
+import { ClarityComponent, DocumentFormat, HeatmapFormat, ReadabilityMetrics, RuleSelection, SentenceReport, SeverityThresholds, VocabularyPack, WritingEditorConfig } from '../types';
+import { ClarityRules } from '../rules/clarity.rules';
+import { StyleRules } from '../rules/style.rules';
+import { StructureRules } from '../rules/structure.rules';
+import { createRuleRegistry } from '../rules/registry';
+import { DEFAULT_CONFIG, resolveRuleSelection } from '../config';
+import { getJargonTerms, termPattern } from '../vocabulary/packs';
+import { ProtectedText } from '../processors/protection';
+import { latexProse } from '../processors/latex';
+import { splitSentences } from '../processors/sentences';
+import { findPassives } from '../processors/passive';
+import { countSyllables, measureReadability } from '../processors/readability';
+import { countClauses, isComplexWord, scoreClarity } from '../processors/clarityScore';
+import { reportSentences } from '../processors/sentenceReport';
+
 interface ClarityMetrics {
   score: number;
+  scoreBreakdown: ClarityComponent[];
   issues: {
     category: string;
     severity: 'high' | 'medium' | 'low';
@@ -13,75 +29,91 @@ interface ClarityMetrics {
     complexWordPercentage: number;
     readabilityScore: number;
     jargonDensity: number;
+    readability: ReadabilityMetrics;
   };
+  sentences?: SentenceReport[];
+  heatmap?: string;
 }
 
-export async function checkClarity(text: string): Promise<ClarityMetrics> {
+export async function checkClarity(
+  input: string,
+  selection: RuleSelection = {},
+  config: WritingEditorConfig = DEFAULT_CONFIG,
+  format: DocumentFormat = 'markdown',
+  report: { sentences?: boolean; heatmapFormat?: HeatmapFormat } = {}
+): Promise<ClarityMetrics> {
+  const prose = format === 'latex' ? latexProse(input) : input;
+  const protectedText = ProtectedText.protect(prose, format);
+  const text = protectedText.masked;
   const sentences = extractSentences(text);
   const words = text.split(/\s+/).filter(w => w.length > 0);
 
-  const issues = [
-    checkPassiveVoice(text),
-    checkLongSentences(sentences),
-    checkComplexWords(words),
-    checkJargon(text),
-    checkRedundancy(text),
-    checkMultipleClauses(sentences)
+  const registry = createRuleRegistry(new ClarityRules(config), new StyleRules(config), new StructureRules(config));
+  const enabledRules = new Set(registry.resolve(resolveRuleSelection(config, selection)).map(rule => rule.id));
+  const { severity, thresholds, vocabulary } = config;
+
+  const checks: { ruleId: string; run: () => any }[] = [
+    { ruleId: 'passive-voice', run: () => checkPassiveVoice(text, severity.passiveVoice) },
+    { ruleId: 'long-sentences', run: () => checkLongSentences(sentences, thresholds.longSentenceWords, severity.longSentences) },
+    { ruleId: 'simplify-language', run: () => checkComplexWords(words, severity.complexVocabulary) },
+    { ruleId: 'forbidden-vocabulary', run: () => checkJargon(text, vocabulary, severity.jargon) },
+    { ruleId: 'redundancy', run: () => checkRedundancy(text, vocabulary, severity.redundancy) },
+    { ruleId: 'multiple-ideas', run: () => checkMultipleClauses(sentences, thresholds.maxClauses, severity.multipleClauses) }
   ];
 
-  const statistics = calculateStatistics(text, sentences, words);
-  const score = calculateClarityScore(issues, statistics);
-  const recommendations = generateRecommendations(issues, statistics);
+  const issues = checks
+    .filter(check => enabledRules.has(check.ruleId))
+    .map(check => check.run());
+
+  const statistics = calculateStatistics(text, sentences, words, vocabulary);
+  const clarity = scoreClarity(input, config, format, ruleId => enabledRules.has(ruleId));
+  const recommendations = generateRecommendations(issues, statistics, config);
+  const sentenceReport = report.sentences
+    ? reportSentences(input, config, format, ruleId => enabledRules.has(ruleId), report.heatmapFormat)
+    : undefined;
 
   return {
-    score,
-    issues: issues.filter(i => i.count > 0),
+    score: clarity.score,
+    scoreBreakdown: clarity.components,
+    issues: issues
+      .filter(i => i.count > 0)
+      .map(i => ({ ...i, examples: i.examples.map((e: string) => protectedText.restore(e)) })),
     recommendations,
-    statistics
+    statistics,
+    ...(sentenceReport && { sentences: sentenceReport.sentences, heatmap: sentenceReport.heatmap })
   };
 }
 
 function extractSentences(text: string): string[] {
-  return text.match(/[^.!?]+[.!?]+/g) || [];
+  return splitSentences(text);
 }
 
-function checkPassiveVoice(text: string): any {
-  const passivePatterns = [
-    /\b(?:was|were)\s+\w+ed\b/gi,
-    /\b(?:has|have|had)\s+been\s+\w+ed\b/gi,
-    /\b(?:is|are|am)\s+being\s+\w+ed\b/gi,
-    /\bit\s+(?:is|was)\s+\w+ed\s+that\b/gi
-  ];
-
-  const examples: string[] = [];
-  let count = 0;
+function rateSeverity(count: number, thresholds: SeverityThresholds): 'high' | 'medium' | 'low' {
+  return count > thresholds.high ? 'high' : count > thresholds.medium ? 'medium' : 'low';
+}
 
-  passivePatterns.forEach(pattern => {
-    const matches = text.match(pattern);
-    if (matches) {
-      count += matches.length;
-      examples.push(...matches.slice(0, 3));
-    }
-  });
+function checkPassiveVoice(text: string, severity: SeverityThresholds): any {
+  const passives = findPassives(text);
 
   return {
     category: 'Passive Voice',
-    severity: count > 5 ? 'high' : count > 2 ? 'medium' : 'low',
-    count,
-    examples: examples.slice(0, 3)
+    severity: rateSeverity(passives.length, severity),
+    count: passives.length,
+    examples: passives.slice(0, 3).map(passive =>
+      passive.agent ? `${passive.text} by ${passive.agent}` : passive.text
+    )
   };
 }
 
-function checkLongSentences(sentences: string[]): any {
+function checkLongSentences(sentences: string[], maxWords: number, severity: SeverityThresholds): any {
   const longSentences = sentences.filter(s => {
     const wordCount = s.trim().split(/\s+/).length;
-    return wordCount > 25;
+    return wordCount > maxWords;
   });
 
   return {
     category: 'Long Sentences',
-    severity: longSentences.length > 5 ? 'high' :
-              longSentences.length > 2 ? 'medium' : 'low',
+    severity: rateSeverity(longSentences.length, severity),
     count: longSentences.length,
     examples: longSentences.slice(0, 3).map(s =>
       s.length > 100 ? s.substring(0, 100) + '...' : s
@@ -89,36 +121,27 @@ function checkLongSentences(sentences: string[]): any {
   };
 }
 
-function checkComplexWords(words: string[]): any {
-  const complexWords = words.filter(word => {
-    const cleaned = word.replace(/[^a-zA-Z]/g, '');
-    return cleaned.length > 12 || countSyllables(cleaned) > 4;
-  });
+function checkComplexWords(words: string[], severity: SeverityThresholds): any {
+  const complexWords = words.filter(word => isComplexWord(word.replace(/[^a-zA-Z]/g, '')));
 
   const uniqueComplex = [...new Set(complexWords)];
 
   return {
     category: 'Complex Vocabulary',
-    severity: uniqueComplex.length > 20 ? 'high' :
-              uniqueComplex.length > 10 ? 'medium' : 'low',
+    severity: rateSeverity(uniqueComplex.length, severity),
     count: uniqueComplex.length,
     examples: uniqueComplex.slice(0, 5)
   };
 }
 
-function checkJargon(text: string): any {
-  const jargonTerms = [
-    'paradigm', 'framework', 'utilize', 'implement', 'facilitate',
-    'leverage', 'synergy', 'holistic', 'robust', 'cutting-edge',
-    'state-of-the-art', 'best-of-breed', 'game-changing', 'disruptive',
-    'transformative', 'innovative', 'revolutionary', 'groundbreaking'
-  ];
+function checkJargon(text: string, vocabulary: VocabularyPack, severity: SeverityThresholds): any {
+  const jargonTerms = getJargonTerms(vocabulary);
 
   const found: string[] = [];
   let count = 0;
 
   jargonTerms.forEach(term => {
-    const regex = new RegExp(`\\b${term}\\b`, 'gi');
+    const regex = termPattern(term);
     const matches = text.match(regex);
     if (matches) {
       count += matches.length;
@@ -128,26 +151,20 @@ function checkJargon(text: string): any {
 
   return {
     category: 'Academic Jargon',
-    severity: count > 10 ? 'high' : count > 5 ? 'medium' : 'low',
+    severity: rateSeverity(count, severity),
     count,
     examples: found.slice(0, 5)
   };
 }
 
-function checkRedundancy(text: string): any {
-  const redundantPhrases = [
-    'absolutely essential', 'actual fact', 'advance planning',
-    'basic fundamentals', 'close proximity', 'completely eliminate',
-    'end result', 'final outcome', 'free gift', 'future plans',
-    'past history', 'personal opinion', 'repeat again', 'true fact',
-    'unexpected surprise', 'very unique'
-  ];
+function checkRedundancy(text: string, vocabulary: VocabularyPack, severity: SeverityThresholds): any {
+  const redundantPhrases = Object.keys(vocabulary.redundant);
 
   const found: string[] = [];
   let count = 0;
 
   redundantPhrases.forEach(phrase => {
-    const regex = new RegExp(`\\b${phrase}\\b`, 'gi');
+    const regex = termPattern(phrase);
     if (regex.test(text)) {
       count++;
       found.push(phrase);
@@ -156,23 +173,18 @@ function checkRedundancy(text: string): any {
 
   return {
     category: 'Redundant Phrases',
-    severity: count > 5 ? 'high' : count > 2 ? 'medium' : 'low',
+    severity: rateSeverity(count, severity),
     count,
     examples: found.slice(0, 5)
   };
 }
 
-function checkMultipleClauses(sentences: string[]): any {
-  const complexSentences = sentences.filter(sentence => {
-    const clauseIndicators = /\b(which|that|who|whom|whose|where|when|while|although|because|since|if|unless)\b/gi;
-    const matches = sentence.match(clauseIndicators);
-    return matches && matches.length > 2;
-  });
+function checkMultipleClauses(sentences: string[], maxClauses: number, severity: SeverityThresholds): any {
+  const complexSentences = sentences.filter(sentence => countClauses(sentence) > maxClauses);
 
   return {
     category: 'Multiple Clauses',
-    severity: complexSentences.length > 5 ? 'high' :
-              complexSentences.length > 2 ? 'medium' : 'low',
+    severity: rateSeverity(complexSentences.length, severity),
     count: complexSentences.length,
     examples: complexSentences.slice(0, 3).map(s =>
       s.length > 100 ? s.substring(0, 100) + '...' : s
@@ -180,19 +192,20 @@ function checkMultipleClauses(sentences: string[]): any {
   };
 }
 
-function calculateStatistics(text: string, sentences: string[], words: string[]): any {
-  const passiveCount = (text.match(/(?:was|were|been|being|is|are|am)\s+\w+ed/gi) || []).length;
+function calculateStatistics(
+  text: string,
+  sentences: string[],
+  words: string[],
+  vocabulary: VocabularyPack
+): any {
+  const passiveCount = findPassives(text).length;
   const complexWords = words.filter(w => countSyllables(w) > 3);
-  const totalSyllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+  const readability = measureReadability(text);
 
   const avgWordsPerSentence = sentences.length > 0 ? words.length / sentences.length : 0;
-  const avgSyllablesPerWord = words.length > 0 ? totalSyllables / words.length : 0;
-
-  const fleschScore = 206.835 - 1.015 * avgWordsPerSentence - 84.6 * avgSyllablesPerWord;
 
-  const jargonTerms = ['paradigm', 'framework', 'utilize', 'implement', 'facilitate'];
-  const jargonCount = jargonTerms.reduce((count, term) => {
-    const regex = new RegExp(`\\b${term}\\b`, 'gi');
+  const jargonCount = getJargonTerms(vocabulary).reduce((count, term) => {
+    const regex = termPattern(term);
     return count + (text.match(regex) || []).length;
   }, 0);
 
@@ -200,56 +213,13 @@ function calculateStatistics(text: string, sentences: string[], words: string[])
     averageSentenceLength: Math.round(avgWordsPerSentence * 10) / 10,
     passiveVoicePercentage: Math.round((passiveCount / sentences.length) * 100),
     complexWordPercentage: Math.round((complexWords.length / words.length) * 100),
-    readabilityScore: Math.max(0, Math.min(100, Math.round(fleschScore))),
-    jargonDensity: Math.round((jargonCount / words.length) * 1000) / 10
+    readabilityScore: Math.max(0, Math.min(100, Math.round(readability.fleschReadingEase))),
+    jargonDensity: Math.round((jargonCount / words.length) * 1000) / 10,
+    readability
   };
 }
 
-function countSyllables(word: string): number {
-  word = word.toLowerCase().replace(/[^a-z]/g, '');
-  if (word.length === 0) return 0;
-
-  let count = 0;
-  let previousWasVowel = false;
-  const vowels = 'aeiou';
-
-  for (let i = 0; i < word.length; i++) {
-    const isVowel = vowels.includes(word[i]);
-    if (isVowel && !previousWasVowel) {
-      count++;
-    }
-    previousWasVowel = isVowel;
-  }
-
-  if (word.endsWith('e') && count > 1) count--;
-  if (word.endsWith('le') && !vowels.includes(word[word.length - 3])) count++;
-
-  return Math.max(1, count);
-}
-
-function calculateClarityScore(issues: any[], statistics: any): number {
-  let score = 100;
-
-  issues.forEach(issue => {
-    if (issue.severity === 'high') {
-      score -= 15;
-    } else if (issue.severity === 'medium') {
-      score -= 8;
-    } else if (issue.severity === 'low') {
-      score -= 3;
-    }
-  });
-
-  if (statistics.averageSentenceLength > 25) score -= 10;
-  if (statistics.passiveVoicePercentage > 20) score -= 10;
-  if (statistics.complexWordPercentage > 15) score -= 5;
-  if (statistics.readabilityScore < 50) score -= 10;
-  if (statistics.jargonDensity > 5) score -= 5;
-
-  return Math.max(0, Math.min(100, score));
-}
-
-function generateRecommendations(issues: any[], statistics: any): string[] {
+function generateRecommendations(issues: any[], statistics: any, config: WritingEditorConfig): string[] {
   const recommendations: string[] = [];
 
   issues.forEach(issue => {
@@ -260,7 +230,7 @@ function generateRecommendations(issues: any[], statistics: any): string[] {
         recommendations.push(`Convert ${issue.count} passive voice instances to active voice for clearer writing`);
         break;
       case 'Long Sentences':
-        recommendations.push(`Split ${issue.count} long sentences (>25 words) into shorter, clearer statements`);
+        recommendations.push(`Split ${issue.count} long sentences (>${config.thresholds.longSentenceWords} words) into shorter, clearer statements`);
         break;
       case 'Complex Vocabulary':
         recommendations.push(`Replace ${issue.count} complex words with simpler alternatives`);
@@ -285,6 +255,11 @@ function generateRecommendations(issues: any[], statistics: any): string[] {
     recommendations.push(`Improve readability score from ${statistics.readabilityScore} to at least 60`);
   }
 
+  const grade = statistics.readability.fleschKincaidGrade;
+  if (grade > config.thresholds.maxGradeLevel) {
+    recommendations.push(`Lower the Flesch–Kincaid grade level from ${grade} to ${config.thresholds.maxGradeLevel} or below`);
+  }
+
   if (statistics.passiveVoicePercentage > 10) {
     recommendations.push(`Reduce passive voice usage from ${statistics.passiveVoicePercentage}% to under 10%`);
   }
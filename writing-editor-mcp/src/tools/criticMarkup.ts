@@ -0,0 +1,52 @@
+import { Change } from '../types';
+import { Highlight, Revision, findRevisions } from '../processors/revisions';
+
+/**
+ * The edited document with every edit marked in CriticMarkup, for review in
+ * editors that can accept or reject each one: {--deleted--}, {++inserted++}
+ * and {~~old~>new~~}, each followed by a {>>comment<<} with the reasons of
+ * the changes that made it. Findings that change nothing, such as a passive
+ * without an actor, are highlighted as {==text==}{>>reason<<}.
+ */
+export function generateCriticMarkup(original: string, edited: string, changes: Change[]): string {
+  const { revisions, highlights } = findRevisions(original, edited, changes);
+  return render(original, revisions, highlights);
+}
+
+function render(original: string, revisions: Revision[], highlights: Highlight[]): string {
+  let output = '';
+  let cursor = 0;
+
+  const copy = (end: number) => {
+    highlights
+      .filter(highlight => highlight.start >= cursor && highlight.end <= end)
+      .forEach(highlight => {
+        output += original.slice(cursor, highlight.start);
+        output += `{==${original.slice(highlight.start, highlight.end)}==}{>>${highlight.reason}<<}`;
+        cursor = highlight.end;
+      });
+    output += original.slice(cursor, end);
+    cursor = end;
+  };
+
+  revisions.forEach(revision => {
+    copy(revision.start);
+    // Line breaks that end an insertion stay outside the markup, so the
+    // block after it, such as a heading, still starts a line
+    const breaks = revision.inserted.match(/\s*\n\s*$/)?.[0] ?? '';
+    const inserted = revision.inserted.slice(0, revision.inserted.length - breaks.length);
+    const deleted = breaks && revision.deleted.endsWith(breaks)
+      ? revision.deleted.slice(0, revision.deleted.length - breaks.length)
+      : revision.deleted;
+
+    if (deleted && inserted) output += `{~~${deleted}~>${inserted}~~}`;
+    else if (deleted) output += `{--${deleted}--}`;
+    else if (inserted) output += `{++${inserted}++}`;
+    if (revision.reasons.length > 0) output += `{>>${revision.reasons.join('; ')}<<}`;
+    output += breaks;
+    cursor = revision.end;
+  });
+  copy(original.length);
+
+  return output;
+}
\ No newline at end of file
@@ -1,51 +1,101 @@
-import { EditResult } from '../types';
+import {
+  Change,
+  DiffFormat,
+  DocumentFormat,
+  EditResult,
+  RuleSelection,
+  Section,
+  SectionOutline,
+  WritingEditorConfig
+} from '../types';
 import { DocumentProcessor } from '../processors/documentParser';
 import { StructureRules } from '../rules/structure.rules';
-import { generateTrackingMarkdown, saveTrackingDocument } from './generateTracking';
+import { generateDiffView, generateTrackingMarkdown, saveTrackingDocument } from './generateTracking';
+import { generateCriticMarkup } from './criticMarkup';
+import { generateLatexDiff } from './latexDiff';
+import { DEFAULT_CONFIG, resolveRuleSelection } from '../config';
+import { createChangeId } from '../processors/changeIds';
+import { markdownHeading } from '../processors/markdown';
+import { latexHeading, latexProse } from '../processors/latex';
+import { measureReadability } from '../processors/readability';
+import { describeSection } from '../processors/sections';
 
 export async function editDocument(
   text: string,
   documentType: string = 'section',
-  outputFormat: string = 'tracked_changes'
+  outputFormat: string = 'tracked_changes',
+  selection: RuleSelection = {},
+  config: WritingEditorConfig = DEFAULT_CONFIG,
+  format: DocumentFormat = 'markdown',
+  acceptChange?: (id: string) => boolean,
+  diffFormat?: DiffFormat
 ): Promise<EditResult> {
-  const processor = new DocumentProcessor();
-  const structureRules = new StructureRules();
+  if (outputFormat === 'latexdiff' && format !== 'latex') {
+    throw new Error('The latexdiff output format requires format "latex"');
+  }
+
+  const processor = new DocumentProcessor(resolveRuleSelection(config, selection), config, format);
+  const structureRules = new StructureRules(config, format);
 
   const docType = documentType as 'full_paper' | 'section' | 'paragraph' | 'abstract';
-  const processed = await processor.processDocument(text, docType);
+
+  if (outputFormat === 'diagnostics') {
+    const diagnostics = await processor.diagnoseDocument(text, docType);
+    const readability = measureReadability(format === 'latex' ? latexProse(text) : text);
+    const clarity = processor.scoreClarity(text);
+    return {
+      edited: text,
+      metrics: {
+        clarityScore: clarity.score,
+        changes: diagnostics.length,
+        wordReduction: 0,
+        readabilityImprovement: 0,
+        readability: { original: readability, edited: readability },
+        clarityBreakdown: clarity.components
+      },
+      diagnostics
+    };
+  }
+
+  const processed = await processor.processDocument(text, docType, acceptChange);
+  const allChanges = processed.changes || [];
 
   if (documentType === 'full_paper') {
-    processed.sections = structureRules.insertOverviewSection(processed.sections);
+    if (processor.isRuleEnabled('overview-section')) {
+      const sections = structureRules.insertOverviewSection([...processed.sections]);
+      const changes = takeStructureChanges(structureRules, 'overview-section', 'Document');
+      if (isAccepted(changes, acceptChange)) {
+        processed.sections = sections;
+        allChanges.push(...changes);
+      }
+    }
 
     processed.sections.forEach(section => {
-      if (section.title.toLowerCase().includes('introduction')) {
-        const result = structureRules.validateIntroduction(section.edited || section.content);
-        section.edited = result.fixedText;
-        if (result.changes) {
-          section.changes = [...(section.changes || []), ...result.changes];
-        }
-      }
+      const validators = [
+        { ruleId: 'introduction-structure', keyword: 'introduction', validate: (t: string) => structureRules.validateIntroduction(t) },
+        { ruleId: 'abstract-structure', keyword: 'abstract', validate: (t: string) => structureRules.validateAbstract(t, processed.sections) }
+      ];
 
-      if (section.title.toLowerCase().includes('abstract')) {
-        const result = structureRules.validateAbstract(section.edited || section.content);
-        section.edited = result.fixedText;
-        if (result.changes) {
-          section.changes = [...(section.changes || []), ...result.changes];
+      validators.forEach(({ ruleId, keyword, validate }) => {
+        if (!section.title.toLowerCase().includes(keyword) || !processor.isRuleEnabled(ruleId)) return;
+
+        const body = section.edited ?? section.content;
+        const core = body.trim();
+        const result = validate(core);
+        const changes = takeStructureChanges(structureRules, ruleId, section.title);
+        if (isAccepted(changes, acceptChange)) {
+          const leading = body.slice(0, body.indexOf(core));
+          section.edited = leading + result.fixedText.trim() + body.slice(leading.length + core.length);
+          section.changes = [...(section.changes || []), ...changes];
+          allChanges.push(...changes);
         }
-      }
+      });
     });
   }
 
-  const fullEdited = processed.sections
-    .map(s => {
-      if (s.title !== 'Content' && s.title !== 'Document') {
-        return `# ${s.title}\n\n${s.edited || s.content}`;
-      }
-      return s.edited || s.content;
-    })
-    .join('\n\n');
+  const fullEdited = assembleSections(processed.sections, format);
+  const clarity = processor.scoreClarity(fullEdited);
 
-  const allChanges = processed.changes || [];
   const trackingDoc = await generateTrackingMarkdown(text, fullEdited, allChanges);
 
   let trackingPath: string | undefined;
@@ -60,17 +110,80 @@ export async function editDocument(
   const result: EditResult = {
     edited: fullEdited,
     metrics: {
-      clarityScore: processed.metrics.clarity,
+      clarityScore: clarity.score,
       changes: allChanges.length,
       wordReduction: processed.metrics.wordReduction,
-      readabilityImprovement: processed.metrics.readabilityGain
+      readabilityImprovement: processed.metrics.readabilityGain,
+      readability: processed.metrics.readability,
+      clarityBreakdown: clarity.components
     },
-    suggestions: processed.suggestions
+    suggestions: processed.suggestions,
+    sections: processed.outline.map(toOutline)
   };
 
   if (outputFormat === 'tracked_changes' || outputFormat === 'both') {
     result.tracking = trackingDoc;
+    result.changes = allChanges;
+    result.suggestedChanges = processed.suggestedChanges;
+  }
+
+  // The document itself carries the changes, for review in the editor
+  if (outputFormat === 'criticmarkup' || outputFormat === 'latexdiff') {
+    result.edited = outputFormat === 'criticmarkup'
+      ? generateCriticMarkup(text, fullEdited, allChanges)
+      : generateLatexDiff(text, fullEdited, allChanges);
+    result.changes = allChanges;
+    result.suggestedChanges = processed.suggestedChanges;
+  }
+
+  if (diffFormat) {
+    result.diff = generateDiffView(text, fullEdited, diffFormat);
   }
 
   return result;
+}
+
+// Sections carry their raw heading and body, so concatenating them reproduces
+// the source exactly. Only sections inserted by a structure rule need a
+// heading synthesized, at the depth of the section that follows them. The
+// `\end{document}` ending comes last, after any section inserted at the end.
+function assembleSections(sections: Section[], format: DocumentFormat): string {
+  const formatHeading = format === 'latex' ? latexHeading : markdownHeading;
+
+  const body = sections.reduce((output, section, index) => {
+    if (section.heading !== undefined || section.original !== undefined) {
+      return output + (section.heading ?? '') + (section.edited ?? section.content) + (section.trailer ?? '');
+    }
+
+    const depth = sections.slice(index + 1).find(s => s.depth)?.depth ?? 1;
+    const separator = !output || output.endsWith('\n\n') ? '' : output.endsWith('\n') ? '\n' : '\n\n';
+    return output + separator + `${formatHeading(section.title, depth)}\n\n${section.content}\n\n`;
+  }, '');
+  return body + sections.map(section => section.ending ?? '').join('');
+}
+
+function toOutline(section: Section): SectionOutline {
+  return {
+    ...describeSection(section),
+    metrics: section.metrics!,
+    children: (section.children || []).map(toOutline)
+  };
+}
+
+// Structure rules rewrite a whole section at once, so the changes from one
+// application share its fate: accepting any of their ids applies them all.
+function takeStructureChanges(structureRules: StructureRules, ruleId: string, section: string): Change[] {
+  const changes = structureRules.getChanges().map((change, index) => ({
+    ...change,
+    id: createChangeId(ruleId, section, String(index)),
+    ruleId,
+    location: { section }
+  }));
+  structureRules.clearChanges();
+  return changes;
+}
+
+function isAccepted(changes: Change[], acceptChange?: (id: string) => boolean): boolean {
+  if (!acceptChange) return true;
+  return changes.some(change => acceptChange(change.id!));
 }
\ No newline at end of file
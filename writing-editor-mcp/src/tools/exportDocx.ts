@@ -0,0 +1,250 @@
+import { Change, DocumentFormat, RuleSelection, WritingEditorConfig } from '../types';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { editDocument } from './editDocument';
+import { DEFAULT_CONFIG } from '../config';
+import { findRevisions } from '../processors/revisions';
+import { createZip } from '../processors/zip';
+
+interface ExportDocxResult {
+  path: string;
+  revisions: number;
+  comments: number;
+  changes: Change[];
+}
+
+type Piece =
+  | { kind: 'text' | 'insert' | 'delete'; text: string }
+  | { kind: 'commentStart' | 'commentEnd'; id: number };
+
+// A paragraph and how its paragraph mark came about: a break inside inserted
+// or deleted text is itself a tracked revision
+interface Paragraph {
+  pieces: Piece[];
+  mark: 'text' | 'insert' | 'delete';
+}
+
+const AUTHOR = 'Writing Editor';
+const INITIALS = 'WE';
+const W_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const R_NAMESPACE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// A blank line, or a line break before a heading, list item, quote or table
+// row, starts a new paragraph; other line breaks are soft wraps
+const PARAGRAPH_BREAK = /\n[ \t]*\n\s*|\n(?=[ \t]*(?:#{1,6}[ \t]|[-*+][ \t]|\d+[.)][ \t]|>|\|))/;
+
+export async function exportDocx(
+  text: string,
+  documentType: string = 'section',
+  selection: RuleSelection = {},
+  config: WritingEditorConfig = DEFAULT_CONFIG,
+  format: DocumentFormat = 'markdown',
+  outputPath?: string
+): Promise<ExportDocxResult> {
+  const result = await editDocument(text, documentType, 'tracked_changes', selection, config, format);
+  const changes = result.changes || [];
+  const docx = generateDocx(text, result.edited, changes, format);
+
+  const filepath = outputPath || path.join('./edits', `edits_${Date.now()}.docx`);
+  await fs.mkdir(path.dirname(filepath), { recursive: true });
+  await fs.writeFile(filepath, docx.buffer);
+
+  return { path: filepath, revisions: docx.revisions, comments: docx.comments, changes };
+}
+
+/**
+ * A Word document of the edited text in which every edit is a tracked
+ * revision (w:ins, w:del) by "Writing Editor", with the reasons for it as a
+ * Word comment, so co-authors can accept or reject each edit in Word's
+ * review pane. Paragraph breaks an edit adds or removes are tracked too, so
+ * rejecting every change gives back the original paragraphs. Markdown headings become Word headings; LaTeX is kept as
+ * written.
+ */
+export function generateDocx(
+  original: string,
+  edited: string,
+  changes: Change[],
+  format: DocumentFormat = 'markdown'
+): { buffer: Buffer; revisions: number; comments: number } {
+  const { revisions, highlights } = findRevisions(original, edited, changes, format);
+  const date = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+  const comments: string[] = [];
+  const pieces: Piece[] = [];
+  let cursor = 0;
+
+  const comment = (reason: string) => {
+    comments.push(reason);
+    return comments.length - 1;
+  };
+  const copy = (end: number) => {
+    highlights
+      .filter(highlight => highlight.start >= cursor && highlight.end <= end)
+      .forEach(highlight => {
+        const id = comment(highlight.reason);
+        pieces.push(
+          { kind: 'text', text: original.slice(cursor, highlight.start) },
+          { kind: 'commentStart', id },
+          { kind: 'text', text: original.slice(highlight.start, highlight.end) },
+          { kind: 'commentEnd', id }
+        );
+        cursor = highlight.end;
+      });
+    pieces.push({ kind: 'text', text: original.slice(cursor, end) });
+    cursor = end;
+  };
+
+  revisions.forEach(revision => {
+    copy(revision.start);
+    const id = revision.reasons.length > 0 ? comment(revision.reasons.join('\n')) : undefined;
+    if (id !== undefined) pieces.push({ kind: 'commentStart', id });
+    pieces.push({ kind: 'delete', text: revision.deleted }, { kind: 'insert', text: revision.inserted });
+    if (id !== undefined) pieces.push({ kind: 'commentEnd', id });
+    cursor = revision.end;
+  });
+  copy(original.length);
+
+  // Revision ids are unique across the document
+  let revisionId = 0;
+  const body = paragraphs(pieces).map(paragraph => renderParagraph(paragraph, format, date, () => revisionId++)).join('');
+
+  const buffer = createZip([
+    { name: '[Content_Types].xml', data: contentTypes() },
+    { name: '_rels/.rels', data: packageRelationships() },
+    { name: 'word/_rels/document.xml.rels', data: documentRelationships() },
+    { name: 'word/document.xml', data: xmlPart(`<w:document xmlns:w="${W_NAMESPACE}" xmlns:r="${R_NAMESPACE}"><w:body>${body}<w:sectPr/></w:body></w:document>`) },
+    { name: 'word/styles.xml', data: styles() },
+    { name: 'word/comments.xml', data: commentsPart(comments, date) }
+  ]);
+
+  return { buffer, revisions: revisions.length, comments: comments.length };
+}
+
+function paragraphs(pieces: Piece[]): Paragraph[] {
+  const result: Paragraph[] = [{ pieces: [], mark: 'text' }];
+  pieces.forEach(piece => {
+    if ('id' in piece) {
+      result[result.length - 1].pieces.push(piece);
+      return;
+    }
+    const { kind, text } = piece;
+    text.split(PARAGRAPH_BREAK).forEach((part, index) => {
+      if (index > 0) {
+        result[result.length - 1].mark = kind;
+        result.push({ pieces: [], mark: 'text' });
+      }
+      if (part) result[result.length - 1].pieces.push({ kind, text: part.replace(/\s*\n\s*/g, ' ') });
+    });
+  });
+  // An empty paragraph is kept when its mark is tracked, or rejecting the
+  // change would not restore the paragraphs around it
+  return result.filter(paragraph =>
+    paragraph.mark !== 'text' || paragraph.pieces.some(piece => 'id' in piece || piece.text.trim())
+  );
+}
+
+function renderParagraph({ pieces, mark }: Paragraph, format: DocumentFormat, date: string, nextRevisionId: () => number): string {
+  let style = '';
+  const text = pieces.filter(piece => !('id' in piece)) as { kind: string; text: string }[];
+  const first = text[0];
+  const last = text[text.length - 1];
+  if (last?.kind === 'text') last.text = last.text.trimEnd();
+
+  // Markdown headings take Word's heading styles, list markers become bullets
+  if (format === 'markdown' && first?.kind === 'text') {
+    const heading = first.text.match(/^\s*(#{1,6})[ \t]+/);
+    if (heading) {
+      style = `<w:pStyle w:val="Heading${heading[1].length}"/>`;
+      first.text = first.text.slice(heading[0].length);
+    }
+    first.text = first.text.replace(/^\s*[-*+][ \t]+/, '• ');
+  }
+
+  const runs = pieces.map(piece => {
+    switch (piece.kind) {
+      case 'commentStart':
+        return `<w:commentRangeStart w:id="${piece.id}"/>`;
+      case 'commentEnd':
+        return `<w:commentRangeEnd w:id="${piece.id}"/><w:r><w:rPr><w:rStyle w:val="CommentReference"/></w:rPr><w:commentReference w:id="${piece.id}"/></w:r>`;
+      case 'text':
+        return piece.text ? `<w:r><w:t xml:space="preserve">${escapeXml(piece.text)}</w:t></w:r>` : '';
+      default: {
+        if (!piece.text) return '';
+        const tag = piece.kind === 'insert' ? 'w:ins' : 'w:del';
+        const content = piece.kind === 'insert'
+          ? `<w:t xml:space="preserve">${escapeXml(piece.text)}</w:t>`
+          : `<w:delText xml:space="preserve">${escapeXml(piece.text)}</w:delText>`;
+        return `<${tag} w:id="${nextRevisionId()}" w:author="${AUTHOR}" w:date="${date}"><w:r>${content}</w:r></${tag}>`;
+      }
+    }
+  });
+
+  const revision = (tag: string) => `<${tag} w:id="${nextRevisionId()}" w:author="${AUTHOR}" w:date="${date}"/>`;
+  const markRevision = mark === 'text' ? '' : `<w:rPr>${revision(mark === 'insert' ? 'w:ins' : 'w:del')}</w:rPr>`;
+  const properties = style || markRevision ? `<w:pPr>${style}${markRevision}</w:pPr>` : '';
+  return `<w:p>${properties}${runs.join('')}</w:p>`;
+}
+
+function commentsPart(comments: string[], date: string): string {
+  const body = comments.map((text, id) => {
+    const lines = text.split('\n').map(line => `<w:p><w:r><w:t xml:space="preserve">${escapeXml(line)}</w:t></w:r></w:p>`);
+    return `<w:comment w:id="${id}" w:author="${AUTHOR}" w:date="${date}" w:initials="${INITIALS}">${lines.join('')}</w:comment>`;
+  });
+  return xmlPart(`<w:comments xmlns:w="${W_NAMESPACE}">${body.join('')}</w:comments>`);
+}
+
+function styles(): string {
+  const headings = [1, 2, 3, 4, 5, 6].map(level =>
+    `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+    `<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="60"/><w:outlineLvl w:val="${level - 1}"/></w:pPr>` +
+    `<w:rPr><w:b/><w:sz w:val="${Math.max(36 - 4 * level, 22)}"/></w:rPr></w:style>`
+  ).join('');
+  return xmlPart(
+    `<w:styles xmlns:w="${W_NAMESPACE}">` +
+    `<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="120"/></w:pPr></w:style>` +
+    headings +
+    `<w:style w:type="character" w:styleId="CommentReference"><w:name w:val="annotation reference"/><w:rPr><w:sz w:val="16"/></w:rPr></w:style>` +
+    `</w:styles>`
+  );
+}
+
+function contentTypes(): string {
+  const main = 'application/vnd.openxmlformats-officedocument.wordprocessingml';
+  return xmlPart(
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    `<Override PartName="/word/document.xml" ContentType="${main}.document.main+xml"/>` +
+    `<Override PartName="/word/styles.xml" ContentType="${main}.styles+xml"/>` +
+    `<Override PartName="/word/comments.xml" ContentType="${main}.comments+xml"/>` +
+    '</Types>'
+  );
+}
+
+function packageRelationships(): string {
+  return relationships([['rId1', 'officeDocument', 'word/document.xml']]);
+}
+
+function documentRelationships(): string {
+  return relationships([['rId1', 'styles', 'styles.xml'], ['rId2', 'comments', 'comments.xml']]);
+}
+
+function relationships(targets: [string, string, string][]): string {
+  const entries = targets.map(([id, type, target]) =>
+    `<Relationship Id="${id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/${type}" Target="${target}"/>`
+  );
+  return xmlPart(`<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${entries.join('')}</Relationships>`);
+}
+
+function xmlPart(content: string): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${content}`;
+}
+
+// Also drops control characters, which XML 1.0 does not allow
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
\ No newline at end of file
@@ -1,6 +1,23 @@
-import { Change } from '../types';
+import { Change, DiffFormat, DiffOperation, ReadabilityMetrics } from '../types';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { countWords, measureReadability } from '../processors/readability';
+import { diffLines, diffWords } from '../processors/diff';
+
+const READABILITY_ROWS: [string, keyof ReadabilityMetrics][] = [
+  ['Flesch Reading Ease', 'fleschReadingEase'],
+  ['Flesch–Kincaid Grade', 'fleschKincaidGrade'],
+  ['Gunning Fog', 'gunningFog'],
+  ['SMOG', 'smog'],
+  ['Coleman–Liau', 'colemanLiau'],
+  ['Automated Readability Index', 'automatedReadabilityIndex'],
+  ['Dale–Chall', 'daleChall'],
+  ['Reading Time (min)', 'readingTimeMinutes']
+];
+// Unchanged lines shown around each change in a unified diff
+const UNIFIED_CONTEXT = 3;
+// Share of words two lines must have in common to sit side by side
+const MIN_LINE_SIMILARITY = 0.3;
 
 export async function generateTrackingMarkdown(
   original: string,
@@ -10,8 +27,8 @@ export async function generateTrackingMarkdown(
   const timestamp = new Date().toISOString();
   const originalWords = countWords(original);
   const editedWords = countWords(edited);
-  const readabilityBefore = calculateReadabilityScore(original);
-  const readabilityAfter = calculateReadabilityScore(edited);
+  const readabilityBefore = measureReadability(original);
+  const readabilityAfter = measureReadability(edited);
 
   let markdown = `# Writing Edits Tracking Document\n\n`;
   markdown += `**Generated:** ${timestamp}\n\n`;
@@ -20,7 +37,11 @@ export async function generateTrackingMarkdown(
   markdown += `| Metric | Before | After | Change |\n`;
   markdown += `|--------|--------|-------|--------|\n`;
   markdown += `| Total Words | ${originalWords} | ${editedWords} | ${editedWords - originalWords} |\n`;
-  markdown += `| Readability Score | ${readabilityBefore.toFixed(1)} | ${readabilityAfter.toFixed(1)} | ${(readabilityAfter - readabilityBefore).toFixed(1)} |\n`;
+  READABILITY_ROWS.forEach(([label, key]) => {
+    const before = readabilityBefore[key];
+    const after = readabilityAfter[key];
+    markdown += `| ${label} | ${before.toFixed(1)} | ${after.toFixed(1)} | ${(after - before).toFixed(1)} |\n`;
+  });
   markdown += `| Total Edits | - | - | ${changes.length} |\n`;
   markdown += `| Characters | ${original.length} | ${edited.length} | ${edited.length - original.length} |\n\n`;
 
@@ -32,21 +53,25 @@ export async function generateTrackingMarkdown(
 
     typeChanges.forEach((change, idx) => {
       markdown += `#### ${idx + 1}. ${change.rule}\n\n`;
-      markdown += `**Before:**\n`;
-      markdown += `\`\`\`\n${change.before}\n\`\`\`\n\n`;
-      markdown += `**After:**\n`;
-      markdown += `\`\`\`\n${change.after}\n\`\`\`\n\n`;
+      if (change.id) {
+        markdown += `**Change ID:** \`${change.id}\`\n\n`;
+      }
+      if (change.before === change.after) {
+        markdown += `**Text:**\n\n${blockquote(change.before)}\n\n`;
+      } else {
+        markdown += `**Edit:**\n\n${blockquote(generateDiffView(change.before, change.after, 'inline'))}\n\n`;
+      }
       markdown += `**Reason:** ${change.reason}\n\n`;
+      if (change.generated) {
+        markdown += `> **Generated draft:** assembled from sentences of the document; review it before keeping it.\n\n`;
+      }
     });
   });
 
   markdown += `## Full Document Comparison\n\n`;
   markdown += `<details>\n`;
-  markdown += `<summary>Click to expand full comparison</summary>\n\n`;
-  markdown += `### Original Version\n`;
-  markdown += `\`\`\`\n${original}\n\`\`\`\n\n`;
-  markdown += `### Edited Version\n`;
-  markdown += `\`\`\`\n${edited}\n\`\`\`\n`;
+  markdown += `<summary>Click to expand the edited document with ~~deletions~~ and **insertions** marked</summary>\n\n`;
+  markdown += `${generateDiffView(original, edited, 'inline').trim()}\n\n`;
   markdown += `</details>\n\n`;
 
   markdown += `## Applied Rules Summary\n\n`;
@@ -80,54 +105,6 @@ export async function saveTrackingDocument(
   }
 }
 
-function countWords(text: string): number {
-  return text.split(/\s+/).filter(word => word.length > 0).length;
-}
-
-function calculateReadabilityScore(text: string): number {
-  const sentences = text.match(/[^.!?]+[.!?]+/g) || [];
-  const words = text.split(/\s+/).filter(w => w.length > 0);
-  const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
-
-  if (sentences.length === 0 || words.length === 0) return 0;
-
-  const averageWordsPerSentence = words.length / sentences.length;
-  const averageSyllablesPerWord = syllables / words.length;
-
-  const fleschScore = 206.835 -
-    1.015 * averageWordsPerSentence -
-    84.6 * averageSyllablesPerWord;
-
-  return Math.max(0, Math.min(100, fleschScore));
-}
-
-function countSyllables(word: string): number {
-  word = word.toLowerCase().replace(/[^a-z]/g, '');
-  if (word.length === 0) return 0;
-
-  let count = 0;
-  let previousWasVowel = false;
-  const vowels = 'aeiou';
-
-  for (let i = 0; i < word.length; i++) {
-    const isVowel = vowels.includes(word[i]);
-    if (isVowel && !previousWasVowel) {
-      count++;
-    }
-    previousWasVowel = isVowel;
-  }
-
-  if (word.endsWith('e') && count > 1) {
-    count--;
-  }
-
-  if (word.endsWith('le') && word.length > 2 && !vowels.includes(word[word.length - 3])) {
-    count++;
-  }
-
-  return Math.max(1, count);
-}
-
 function groupChangesByType(changes: Change[]): Record<string, Change[]> {
   const grouped: Record<string, Change[]> = {};
 
@@ -141,32 +118,186 @@ function groupChangesByType(changes: Change[]): Record<string, Change[]> {
   return grouped;
 }
 
+function blockquote(text: string): string {
+  return text.trim().split('\n').map(line => (line ? `> ${line}` : '>')).join('\n');
+}
+
 function capitalizeFirst(str: string): string {
   return str.charAt(0).toUpperCase() + str.slice(1);
 }
 
-export function generateDiffView(original: string, edited: string): string {
-  const originalLines = original.split('\n');
-  const editedLines = edited.split('\n');
-  let diff = '';
+/**
+ * Compares the original and edited text word by word, so one inserted line
+ * does not mark the rest of the document as changed:
+ * - `inline`: the edited text with ~~deleted~~ and **inserted** words
+ * - `unified`: a unified diff of the changed lines, as produced by `diff -u`
+ * - `html`: a side-by-side table, with <del> on the left and <ins> on the right
+ */
+export function generateDiffView(original: string, edited: string, format: DiffFormat = 'unified'): string {
+  switch (format) {
+    case 'inline':
+      return renderInlineDiff(diffWords(original, edited));
+    case 'html':
+      return renderSideBySide(original, edited);
+    default:
+      return renderUnifiedDiff(diffLines(original, edited));
+  }
+}
 
-  const maxLines = Math.max(originalLines.length, editedLines.length);
+// Markup goes around each line of a change, as emphasis cannot span a
+// paragraph break. Deleted whitespace is dropped.
+function renderInlineDiff(operations: DiffOperation[]): string {
+  return operations.map(operation => {
+    if (operation.type === 'equal') return operation.text;
+    const marker = operation.type === 'delete' ? '~~' : '**';
+    if (!operation.text.trim()) return operation.type === 'insert' ? operation.text : '';
+    return operation.text.replace(/[^\s](?:[^\n]*[^\s])?/g, line => `${marker}${line}${marker}`);
+  }).join('');
+}
 
-  for (let i = 0; i < maxLines; i++) {
-    const origLine = originalLines[i] || '';
-    const editLine = editedLines[i] || '';
+function renderUnifiedDiff(operations: DiffOperation[], context: number = UNIFIED_CONTEXT): string {
+  const lines: { type: DiffOperation['type']; text: string; before: number; after: number }[] = [];
+  let before = 1;
+  let after = 1;
+  operations.forEach(operation => {
+    (operation.text.match(/[^\n]*\n|[^\n]+$/g) || []).forEach(text => {
+      lines.push({ type: operation.type, text, before, after });
+      if (operation.type !== 'insert') before++;
+      if (operation.type !== 'delete') after++;
+    });
+  });
 
-    if (origLine === editLine) {
-      diff += `  ${origLine}\n`;
-    } else {
-      if (origLine) {
-        diff += `- ${origLine}\n`;
-      }
-      if (editLine) {
-        diff += `+ ${editLine}\n`;
+  const changed = lines.map((line, index) => (line.type === 'equal' ? -1 : index)).filter(index => index >= 0);
+  if (changed.length === 0) return '';
+
+  // Changes closer than twice the context share a hunk
+  const hunks: [number, number][] = [];
+  changed.forEach(index => {
+    const last = hunks[hunks.length - 1];
+    if (last && index - last[1] <= 2 * context) last[1] = index;
+    else hunks.push([index, index]);
+  });
+
+  let output = '--- original\n+++ edited\n';
+  hunks.forEach(([first, last]) => {
+    const hunk = lines.slice(Math.max(0, first - context), Math.min(lines.length, last + context + 1));
+    const beforeCount = hunk.filter(line => line.type !== 'insert').length;
+    const afterCount = hunk.filter(line => line.type !== 'delete').length;
+    const beforeStart = beforeCount > 0 ? hunk[0].before : hunk[0].before - 1;
+    const afterStart = afterCount > 0 ? hunk[0].after : hunk[0].after - 1;
+    output += `@@ -${beforeStart},${beforeCount} +${afterStart},${afterCount} @@\n`;
+    hunk.forEach(line => {
+      const prefix = line.type === 'insert' ? '+' : line.type === 'delete' ? '-' : ' ';
+      output += prefix + line.text;
+      if (!line.text.endsWith('\n')) output += '\n\\ No newline at end of file\n';
+    });
+  });
+
+  return output;
+}
+
+// Rows are aligned by a line diff; within a changed block, each deleted line
+// is paired with the inserted line most like it, and a paired line is then
+// compared word by word with the line that replaced it
+function renderSideBySide(original: string, edited: string): string {
+  const rows: [string, string][] = [];
+  let deleted: string[] = [];
+  let inserted: string[] = [];
+
+  const flush = () => {
+    alignLines(deleted, inserted).forEach(([left, right]) => {
+      if (left !== undefined && right !== undefined) {
+        const words = diffWords(left, right);
+        rows.push([
+          words.filter(op => op.type !== 'insert').map(op => markHtml(op, 'del')).join(''),
+          words.filter(op => op.type !== 'delete').map(op => markHtml(op, 'ins')).join('')
+        ]);
+      } else {
+        rows.push([left?.trim() ? `<del>${escapeHtml(left)}</del>` : '', right?.trim() ? `<ins>${escapeHtml(right)}</ins>` : '']);
       }
+    });
+    deleted = [];
+    inserted = [];
+  };
+
+  const operations = diffLines(original, edited);
+  operations.forEach((operation, index) => {
+    const lines = operation.text.split('\n');
+    if (operation.text.endsWith('\n')) lines.pop();
+    // Blank lines between two changes join them into one block, so that a
+    // paragraph moved past an inserted one still finds its edited version
+    const between = deleted.length + inserted.length > 0 && operations[index + 1] !== undefined;
+    if (operation.type === 'equal' && between && lines.every(line => !line.trim())) {
+      deleted.push(...lines);
+      inserted.push(...lines);
+    } else if (operation.type === 'equal') {
+      flush();
+      lines.forEach(line => rows.push([escapeHtml(line), escapeHtml(line)]));
+    } else {
+      (operation.type === 'delete' ? deleted : inserted).push(...lines);
+    }
+  });
+  flush();
+
+  let html = '<table class="writing-editor-diff">\n';
+  html += '<thead><tr><th>Original</th><th>Edited</th></tr></thead>\n<tbody>\n';
+  rows.forEach(([left, right]) => {
+    html += `<tr><td>${left}</td><td>${right}</td></tr>\n`;
+  });
+  html += '</tbody>\n</table>';
+  return html;
+}
+
+// Pairs lines in order so that the pairs are as alike as possible in total
+// (words in common, as a share of both lines). Lines with too little in
+// common stay on their own row, so a paragraph inserted before an edited one
+// does not shift the rows below it.
+function alignLines(deleted: string[], inserted: string[]): [string | undefined, string | undefined][] {
+  const words = (line: string) => new Set(line.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []);
+  const left = deleted.map(words);
+  const right = inserted.map(words);
+  const similarity = (i: number, j: number): number => {
+    if (left[i].size === 0 || right[j].size === 0) return left[i].size === right[j].size ? 1 : 0;
+    const common = [...left[i]].filter(word => right[j].has(word)).length;
+    return (2 * common) / (left[i].size + right[j].size);
+  };
+
+  // best[i][j]: the highest total for deleted[i..] and inserted[j..]
+  const best = Array.from({ length: deleted.length + 1 }, () => new Array<number>(inserted.length + 1).fill(0));
+  for (let i = deleted.length - 1; i >= 0; i--) {
+    for (let j = inserted.length - 1; j >= 0; j--) {
+      const paired = similarity(i, j);
+      best[i][j] = Math.max(
+        best[i + 1][j],
+        best[i][j + 1],
+        paired >= MIN_LINE_SIMILARITY ? paired + best[i + 1][j + 1] : 0
+      );
     }
   }
 
-  return diff;
+  const pairs: [string | undefined, string | undefined][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < deleted.length && j < inserted.length) {
+    const paired = similarity(i, j);
+    if (paired >= MIN_LINE_SIMILARITY && best[i][j] === paired + best[i + 1][j + 1]) {
+      pairs.push([deleted[i++], inserted[j++]]);
+    } else if (best[i][j] === best[i + 1][j]) {
+      pairs.push([deleted[i++], undefined]);
+    } else {
+      pairs.push([undefined, inserted[j++]]);
+    }
+  }
+  while (i < deleted.length) pairs.push([deleted[i++], undefined]);
+  while (j < inserted.length) pairs.push([undefined, inserted[j++]]);
+  return pairs;
+}
+
+function markHtml(operation: DiffOperation, tag: 'ins' | 'del'): string {
+  const text = escapeHtml(operation.text);
+  return operation.type === 'equal' ? text : `<${tag}>${text}</${tag}>`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
 }
\ No newline at end of file
@@ -0,0 +1,92 @@
+import { Change } from '../types';
+import { Revision, findRevisions } from '../processors/revisions';
+import { LATEX_TOKEN } from '../processors/latex';
+
+// The definitions latexdiff adds with its default UNDERLINE style: insertions
+// in blue with a wavy underline, deletions in red and struck out
+const PREAMBLE = [
+  '%DIF PREAMBLE EXTENSION ADDED BY LATEXDIFF',
+  '%DIF UNDERLINE PREAMBLE %DIF PREAMBLE',
+  '\\RequirePackage[normalem]{ulem} %DIF PREAMBLE',
+  '\\RequirePackage{color}\\definecolor{RED}{rgb}{1,0,0}\\definecolor{BLUE}{rgb}{0,0,1} %DIF PREAMBLE',
+  '\\providecommand{\\DIFadd}[1]{{\\protect\\color{blue}\\uwave{#1}}} %DIF PREAMBLE',
+  '\\providecommand{\\DIFdel}[1]{{\\protect\\color{red}\\sout{#1}}} %DIF PREAMBLE',
+  '%DIF SAFE PREAMBLE %DIF PREAMBLE',
+  '\\providecommand{\\DIFaddbegin}{} %DIF PREAMBLE',
+  '\\providecommand{\\DIFaddend}{} %DIF PREAMBLE',
+  '\\providecommand{\\DIFdelbegin}{} %DIF PREAMBLE',
+  '\\providecommand{\\DIFdelend}{} %DIF PREAMBLE',
+  '%DIF END PREAMBLE EXTENSION ADDED BY LATEXDIFF',
+  ''
+].join('\n');
+
+const BEGIN_DOCUMENT = /^[ \t]*\\begin\{document\}/m;
+const PARAGRAPH_BREAK = /(\n[ \t]*\n\s*)/;
+
+/**
+ * The edited LaTeX source with every edit marked the way latexdiff marks
+ * it, \DIFdel{...} for deleted and \DIFadd{...} for inserted text, and its
+ * definitions added to the preamble, so it compiles to a "changes marked"
+ * version. Only prose is wrapped: inserted commands, math and environments
+ * are kept as written, and deleted ones are commented out with %DIFDELCMD.
+ * A fragment without \begin{document} gets the definitions at the top, to
+ * move into the main file's preamble.
+ */
+export function generateLatexDiff(original: string, edited: string, changes: Change[]): string {
+  const { revisions } = findRevisions(original, edited, changes, 'latex');
+  let output = '';
+  let cursor = 0;
+
+  revisions.forEach(revision => {
+    output += original.slice(cursor, revision.start) + render(revision);
+    cursor = revision.end;
+  });
+  output += original.slice(cursor);
+
+  const begin = output.search(BEGIN_DOCUMENT);
+  return begin === -1 ? PREAMBLE + output : output.slice(0, begin) + PREAMBLE + output.slice(begin);
+}
+
+function render(revision: Revision): string {
+  let output = '';
+  if (revision.deleted.trim()) {
+    output += `\\DIFdelbegin ${mark(revision.deleted, 'DIFdel')}\\DIFdelend `;
+  }
+  if (revision.inserted.trim()) {
+    output += `\\DIFaddbegin ${mark(revision.inserted, 'DIFadd')}\\DIFaddend `;
+  } else {
+    // Keep the spacing of an insertion that is only whitespace
+    output += revision.inserted;
+  }
+  return output;
+}
+
+// Wraps each run of prose in the command; ulem cannot span paragraphs, so
+// each paragraph gets its own. Text that ends in a comment ends with a line
+// break, or the comment would swallow the closing \DIFaddend and whatever
+// follows on the line.
+function mark(text: string, command: 'DIFdel' | 'DIFadd'): string {
+  const marked = runs(text).map(({ prose, text: run }) => {
+    if (prose) {
+      return run.split(PARAGRAPH_BREAK)
+        .map(part => part.trim() ? `\\${command}{${part}}` : part)
+        .join('');
+    }
+    if (command === 'DIFadd') return run;
+    return `%DIFDELCMD < ${run.replace(/\n/g, '\n%DIFDELCMD < ')}%%%\n`;
+  }).join('');
+  return /(?:^|[^\\])%[^\n]*$/.test(marked) ? `${marked}\n` : marked;
+}
+
+// Splits text into runs of prose and of markup: commands, escapes, math,
+// comments and braces
+function runs(text: string): { prose: boolean; text: string }[] {
+  const result: { prose: boolean; text: string }[] = [];
+  (text.match(LATEX_TOKEN) || []).forEach(token => {
+    const prose = !/^[\\$%{}]/.test(token);
+    const last = result[result.length - 1];
+    if (last && last.prose === prose) last.text += token;
+    else result.push({ prose, text: token });
+  });
+  return result;
+}
\ No newline at end of file
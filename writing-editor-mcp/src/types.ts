@@ -1,37 +1,212 @@
 export interface Change {
+  id?: string;
+  ruleId?: string;
   rule: string;
   type: 'clarity' | 'style' | 'structure' | 'vocabulary';
   before: string;
   after: string;
   reason: string;
-  location?: {
-    line?: number;
-    paragraph?: number;
-    section?: string;
-  };
+  edit?: SpanEdit;
+  location?: ChangeLocation;
+  // Why the edit was suggested rather than applied, see findMeaningRisks
+  risks?: string[];
+  // The edit adds a draft assembled by the tool, for the author to review
+  generated?: boolean;
+}
+
+export interface SpanEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface ChangeLocation {
+  start?: number;
+  end?: number;
+  line?: number;
+  column?: number;
+  paragraph?: number;
+  section?: string;
+}
+
+export interface Diagnostic {
+  id: string;
+  ruleId: string;
+  rule: string;
+  type: Change['type'];
+  reason: string;
+  original: string;
+  replacement: string;
+  location: Required<ChangeLocation>;
+  risks?: string[];
 }
 
 export interface Section {
   title: string;
   content: string;
+  depth?: number;
+  number?: string;
+  confidence?: number;
+  range?: TextRange;
+  heading?: string;
+  trailer?: string;
+  // `\end{document}` and what follows it; sections inserted at the end go
+  // before it
+  ending?: string;
   original?: string;
   edited?: string;
   changes?: Change[];
+  // Computed over the section and all of its subsections
+  metrics?: DocumentMetrics;
+  parent?: string;
+  children?: Section[];
+}
+
+export interface DetectedSection {
+  title: string;
+  number?: string;
+  depth: number;
+  confidence: number;
+  range: TextRange;
+}
+
+export interface SectionOutline extends DetectedSection {
+  metrics: DocumentMetrics;
+  children: SectionOutline[];
+}
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export type BlockType =
+  | 'heading'
+  | 'paragraph'
+  | 'list_item'
+  | 'blockquote'
+  | 'code'
+  | 'math'
+  | 'table'
+  | 'html'
+  | 'thematic_break'
+  | 'front_matter'
+  | 'comment'
+  | 'command'
+  | 'environment'
+  | 'section_end';
+
+export type DocumentFormat = 'markdown' | 'latex';
+
+export interface DocumentBlock extends TextRange {
+  type: BlockType;
+  depth?: number;
+  number?: string;
+  title?: string;
+  // How sure the parser is that a heading is one; 1 for explicit markup
+  confidence?: number;
+  spans: TextRange[];
+}
+
+export interface DocumentModel {
+  format: DocumentFormat;
+  source: string;
+  blocks: DocumentBlock[];
+  // Offset of `\end{document}`, past which LaTeX ignores the source
+  documentEnd?: number;
 }
 
 export interface ProcessedDocument {
   type: 'full_paper' | 'section' | 'paragraph' | 'abstract';
   sections: Section[];
+  outline: Section[];
   metrics: DocumentMetrics;
   trackingDocument?: string;
   changes?: Change[];
+  // Edits withheld because they may change the meaning
+  suggestedChanges?: Change[];
   suggestions?: string[];
 }
 
+// Standard readability formulas over the same words, sentences and
+// syllables; the grade levels are US school grades
+export interface ReadabilityMetrics {
+  words: number;
+  sentences: number;
+  syllables: number;
+  fleschReadingEase: number;
+  fleschKincaidGrade: number;
+  gunningFog: number;
+  smog: number;
+  colemanLiau: number;
+  automatedReadabilityIndex: number;
+  daleChall: number;
+  readingTimeMinutes: number;
+}
+
+// A span of text that triggered a clarity penalty, with offsets into the
+// input (the LaTeX source, for LaTeX)
+export interface ClarityEvidence {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface ClarityComponent {
+  // The rule id the component checks, or "readability"
+  id: string;
+  description: string;
+  count: number;
+  per1000Words: number;
+  // Points deducted per occurrence per 1,000 words, up to `maxPenalty`
+  weight: number;
+  maxPenalty: number;
+  penalty: number;
+  // Points regained by fixing one occurrence, while below the cap
+  pointsPerFix: number;
+  evidence: ClarityEvidence[];
+}
+
+export interface ClarityBreakdown {
+  score: number;
+  words: number;
+  components: ClarityComponent[];
+}
+
+export type SentenceSeverity = 'high' | 'medium' | 'low' | 'none';
+
+export type HeatmapFormat = 'markdown' | 'html';
+
+// One sentence of the per-sentence clarity report, with offsets into the
+// input (the LaTeX source, for LaTeX)
+export interface SentenceReport {
+  index: number;
+  text: string;
+  start: number;
+  end: number;
+  words: number;
+  gradeLevel: number;
+  clauses: number;
+  passive: boolean;
+  complexWords: string[];
+  jargon: string[];
+  severity: SentenceSeverity;
+  // Why the sentence got its severity, e.g. "passive voice"
+  reasons: string[];
+}
+
+export interface DiffOperation {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export type DiffFormat = 'inline' | 'unified' | 'html';
+
 export interface DocumentMetrics {
   clarity: number;
   wordReduction: number;
   readabilityGain: number;
+  readability: { original: ReadabilityMetrics; edited: ReadabilityMetrics };
   sentenceComplexity: number;
   passiveVoiceCount: number;
   longSentenceCount: number;
@@ -47,15 +222,92 @@ export interface ValidationResult {
 export interface EditResult {
   edited: string;
   tracking?: string;
+  // The original and edited text compared, in the requested DiffFormat
+  diff?: string;
   metrics: {
     clarityScore: number;
     changes: number;
     wordReduction: number;
     readabilityImprovement: number;
+    readability: { original: ReadabilityMetrics; edited: ReadabilityMetrics };
+    // What the clarity score deducted, and for which spans
+    clarityBreakdown: ClarityComponent[];
   };
   suggestions?: string[];
+  sections?: SectionOutline[];
+  changes?: Change[];
+  suggestedChanges?: Change[];
+  diagnostics?: Diagnostic[];
+}
+
+export type RuleCategory = Change['type'];
+
+export type RuleScope = 'sentence' | 'section' | 'document';
+
+export interface Rule<T = string> {
+  id: string;
+  category: RuleCategory;
+  scope: RuleScope;
+  description: string;
+  order: number;
+  apply(input: T): T;
+  detect(input: T): boolean;
+}
+
+export interface RuleSelection {
+  enabledRules?: string[];
+  disabledRules?: string[];
+  // Rule ids in the order they run; unlisted rules follow in their default
+  // order
+  ruleOrder?: string[];
+  // Rules skipped in sections whose title contains the key (case-insensitive),
+  // e.g. { "Future Work": ["tense"] }
+  sectionDisabledRules?: { [section: string]: string[] };
 }
 
 export interface StructureChecks {
   [key: string]: boolean;
-}
\ No newline at end of file
+}
+
+export interface VocabularyPack {
+  forbidden: string[];
+  replacements: { [term: string]: string };
+  redundant: { [phrase: string]: string };
+  weakVerbs: { [phrase: string]: string };
+}
+
+export interface VocabularyLayer extends Partial<VocabularyPack> {
+  allow?: string[];
+}
+
+export interface SeverityThresholds {
+  medium: number;
+  high: number;
+}
+
+export interface WritingEditorConfig {
+  thresholds: {
+    longSentenceWords: number;
+    maxClauses: number;
+    abstractMinWords: number;
+    abstractMaxWords: number;
+    // Flesch–Kincaid grade above which check_clarity_metrics recommends simplifying
+    maxGradeLevel: number;
+  };
+  severity: {
+    passiveVoice: SeverityThresholds;
+    longSentences: SeverityThresholds;
+    complexVocabulary: SeverityThresholds;
+    jargon: SeverityThresholds;
+    redundancy: SeverityThresholds;
+    multipleClauses: SeverityThresholds;
+  };
+  vocabulary: VocabularyPack;
+  rules: RuleSelection;
+  structure: {
+    // Draft missing structure instead of inserting TODO annotations: the
+    // abstract and overview from the document's own sentences, the rest
+    // from templates. Off by default: generated claims are not the author's.
+    generateText: boolean;
+  };
+}
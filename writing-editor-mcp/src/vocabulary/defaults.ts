@@ -0,0 +1,125 @@
+import { VocabularyPack } from '../types';
+
+export const DEFAULT_VOCABULARY: VocabularyPack = {
+  forbidden: [
+    'paradigm',
+    'framework',
+    'thus',
+    'therefore',
+    'hence',
+    'Note that',
+    'It should be noted that',
+    'It is worth noting that',
+    'It is important to note that',
+    'In this paper',
+    'In this work',
+    'In this study',
+    'aforementioned',
+    'hereby',
+    'heretofore',
+    'henceforth',
+    'whilst',
+    'amongst',
+    'albeit',
+    'cutting-edge',
+    'best-of-breed',
+    'game-changing',
+    'groundbreaking',
+    'revolutionary',
+    'disruptive',
+    'transformative',
+    'holistic'
+  ],
+  replacements: {
+    'utilize': 'use',
+    'utilization': 'use',
+    'implement': 'use',
+    'facilitate': 'help',
+    'demonstrate': 'show',
+    'leverage': 'use',
+    'approximately': 'about',
+    'subsequent': 'next',
+    'prior to': 'before',
+    'in order to': 'to',
+    'due to the fact that': 'because',
+    'in the event that': 'if',
+    'at this point in time': 'now',
+    'in light of the fact that': 'because',
+    'in spite of the fact that': 'although',
+    'for the purpose of': 'to',
+    'with regard to': 'about',
+    'with respect to': 'about',
+    'in terms of': 'about',
+    'on the basis of': 'based on',
+    'as a consequence of': 'because of',
+    'in conjunction with': 'with',
+    'in the vicinity of': 'near',
+    'a number of': 'several',
+    'the majority of': 'most'
+  },
+  redundant: {
+    'absolutely essential': 'essential',
+    'absolutely necessary': 'necessary',
+    'actual fact': 'fact',
+    'added bonus': 'bonus',
+    'advance planning': 'planning',
+    'advance warning': 'warning',
+    'all-time record': 'record',
+    'basic fundamentals': 'fundamentals',
+    'brief summary': 'summary',
+    'close proximity': 'proximity',
+    'combine together': 'combine',
+    'completely eliminate': 'eliminate',
+    'consensus of opinion': 'consensus',
+    'continue on': 'continue',
+    'each and every': 'each',
+    'end result': 'result',
+    'exactly the same': 'the same',
+    'final outcome': 'outcome',
+    'first and foremost': 'first',
+    'free gift': 'gift',
+    'future plans': 'plans',
+    'general consensus': 'consensus',
+    'joint collaboration': 'collaboration',
+    'major breakthrough': 'breakthrough',
+    'merge together': 'merge',
+    'mutual cooperation': 'cooperation',
+    'new innovation': 'innovation',
+    'null and void': 'void',
+    'past experience': 'experience',
+    'past history': 'history',
+    'period of time': 'period',
+    'personal opinion': 'opinion',
+    'plan ahead': 'plan',
+    'positive improvement': 'improvement',
+    'postpone until later': 'postpone',
+    'reduce down': 'reduce',
+    'refer back': 'refer',
+    'repeat again': 'repeat',
+    'revert back': 'revert',
+    'same exact': 'same',
+    'serious crisis': 'crisis',
+    'still remains': 'remains',
+    'sudden impulse': 'impulse',
+    'sum total': 'total',
+    'true fact': 'fact',
+    'unexpected surprise': 'surprise',
+    'unintentional mistake': 'mistake',
+    'various different': 'various',
+    'very unique': 'unique'
+  },
+  weakVerbs: {
+    'is able to': 'can',
+    'are able to': 'can',
+    'was able to': 'could',
+    'were able to': 'could',
+    'has the ability to': 'can',
+    'have the ability to': 'can',
+    'is capable of': 'can',
+    'are capable of': 'can',
+    'serves to': '',
+    'serves as': 'is',
+    'functions as': 'is',
+    'acts as': 'is'
+  }
+};
@@ -0,0 +1,54 @@
+import { VocabularyLayer, VocabularyPack } from '../types';
+
+export const VOCABULARY_KEYS = ['forbidden', 'replacements', 'redundant', 'weakVerbs', 'allow'];
+
+export function mergeVocabularyPacks(base: VocabularyPack, ...layers: VocabularyLayer[]): VocabularyPack {
+  let merged: VocabularyPack = {
+    forbidden: [...base.forbidden],
+    replacements: { ...base.replacements },
+    redundant: { ...base.redundant },
+    weakVerbs: { ...base.weakVerbs }
+  };
+
+  layers.forEach(layer => {
+    if (layer.allow) {
+      merged = removeTerms(merged, layer.allow);
+    }
+
+    const known = new Set(merged.forbidden.map(term => term.toLowerCase()));
+    (layer.forbidden || []).forEach(term => {
+      if (!known.has(term.toLowerCase())) {
+        merged.forbidden.push(term);
+        known.add(term.toLowerCase());
+      }
+    });
+
+    merged.replacements = { ...merged.replacements, ...layer.replacements };
+    merged.redundant = { ...merged.redundant, ...layer.redundant };
+    merged.weakVerbs = { ...merged.weakVerbs, ...layer.weakVerbs };
+  });
+
+  return merged;
+}
+
+function removeTerms(pack: VocabularyPack, terms: string[]): VocabularyPack {
+  const allowed = new Set(terms.map(term => term.toLowerCase()));
+  const keep = (map: { [key: string]: string }) =>
+    Object.fromEntries(Object.entries(map).filter(([key]) => !allowed.has(key.toLowerCase())));
+
+  return {
+    forbidden: pack.forbidden.filter(term => !allowed.has(term.toLowerCase())),
+    replacements: keep(pack.replacements),
+    redundant: keep(pack.redundant),
+    weakVerbs: keep(pack.weakVerbs)
+  };
+}
+
+export function getJargonTerms(pack: VocabularyPack): string[] {
+  return [...pack.forbidden, ...Object.keys(pack.replacements)];
+}
+
+export function termPattern(term: string, flags: string = 'gi'): RegExp {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`\\b${escaped}\\b`, flags);
+}
@@ -0,0 +1,200 @@
+import nlp from 'compromise';
+import { VerbForms, conjugate, isVerb } from '../processors/terms';
+
+interface Variant {
+  phrase: string;
+  replacement: string;
+  // Used instead of `replacement` after "is", "has" etc. ("was shown")
+  participle?: string;
+  // Form of the verb in `phrase` ("serves" in "serves to")
+  form?: keyof VerbForms;
+}
+
+const VERB_FORMS: (keyof VerbForms)[] = ['PresentTense', 'PastTense', 'Gerund', 'Participle'];
+const FIXED_TAGS = ['Preposition', 'Determiner', 'Conjunction', 'Adverb', 'Copula', 'Modal', 'Auxiliary', 'Pronoun'];
+const AFTER_AUXILIARY = /\b(?:am|is|are|was|were|be|been|being|has|have|had|get|gets|got)\s+(?:\w+ly\s+)?$/i;
+const MODAL_ENDING = /\b(?:can|could|may|might|must|shall|should|will|would)$/i;
+const NEXT_WORD = /^(\s+)([A-Za-z]+)\b/;
+
+const compiled = new WeakMap<object, Variant[][]>();
+
+/**
+ * Replaces each term of `terms` in `text`, in order. Inflected forms of a
+ * term match too and take the same inflection ("facilitating" -> "helping",
+ * "end results" -> "results"), the source casing carries over ("Utilize",
+ * "IN ORDER TO"), and a preceding "a"/"an" is adjusted to the replacement
+ * ("an utilization" -> "a use"). The verb after a term ending in "to" or
+ * "of" takes the form the replacement needs ("is capable of running" -> "can
+ * run", "serves to reduce" -> "reduces"). Terms listed explicitly win over
+ * the forms generated for another term.
+ */
+export function replaceTerms(text: string, terms: { [term: string]: string }): string {
+  let entries = compiled.get(terms);
+  if (!entries) {
+    const explicit = new Set(Object.keys(terms).map(term => term.toLowerCase()));
+    entries = Object.entries(terms).map(([term, replacement]) =>
+      inflections(term, replacement).filter((variant, index) => index === 0 || !explicit.has(variant.phrase))
+    );
+    compiled.set(terms, entries);
+  }
+
+  return entries.reduce((result, variants) => replaceVariants(result, variants), text);
+}
+
+function replaceVariants(text: string, variants: Variant[]): string {
+  const byPhrase = new Map(variants.map(variant => [variant.phrase, variant]));
+  const alternatives = [...byPhrase.keys()]
+    .sort((a, b) => b.length - a.length)
+    .map(phrase => phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '\\s+'));
+  const pattern = new RegExp(`\\b(?:${alternatives.join('|')})\\b`, 'gi');
+
+  let output = '';
+  let cursor = 0;
+  let capitalizeNext = false;
+
+  for (const match of text.matchAll(pattern)) {
+    // Already taken as the verb after the previous match
+    if (match.index! < cursor) continue;
+
+    const variant = byPhrase.get(match[0].toLowerCase().replace(/\s+/g, ' '))!;
+    let preceding = text.slice(cursor, match.index);
+    if (capitalizeNext) {
+      preceding = capitalize(preceding.trimStart());
+      capitalizeNext = false;
+    }
+    output += preceding;
+
+    const end = match.index! + match[0].length;
+    const chosen = variant.participle && AFTER_AUXILIARY.test(output) ? variant.participle : variant.replacement;
+    const verb = complementVerb(variant, chosen, text.slice(end));
+    if (verb === null) {
+      output += match[0];
+      cursor = end;
+      continue;
+    }
+    const replacement = matchCase(match[0], chosen);
+
+    if (replacement) {
+      output = output.replace(/\b(a|an)(\s+)$/i, (_, article: string, space: string) =>
+        matchCase(article, indefiniteArticle(replacement)) + space
+      );
+    } else {
+      // Dropping a phrase must not leave a double space or, at the start
+      // of the sentence, a lower-case first word
+      output = output.replace(/[ \t]+$/, '');
+      capitalizeNext = !output.trim() && /^[A-Z]/.test(match[0]);
+    }
+
+    output += replacement;
+    cursor = end;
+    if (verb) {
+      // A term dropped at the start passes its capital on to the verb
+      output += capitalizeNext ? capitalize(verb.text.trimStart()) : verb.text;
+      capitalizeNext = false;
+      cursor += verb.length;
+    }
+  }
+
+  let rest = text.slice(cursor);
+  if (capitalizeNext) rest = capitalize(rest.trimStart());
+  return output + rest;
+}
+
+// The verb after a term ending in "to" or "of", in the form the replacement
+// needs: the infinitive after a modal or "to" ("is capable of running" ->
+// "can run"), the dropped verb's own form when the term goes ("served to
+// reduce" -> "reduced"). Undefined when the word after stays as it is, null
+// when it is not the verb expected there, so the term is kept.
+function complementVerb(variant: Variant, replacement: string, after: string): { text: string; length: number } | undefined | null {
+  const last = variant.phrase.split(' ').pop();
+  const infinitive = MODAL_ENDING.test(replacement) || /\bto$/i.test(replacement);
+  if (last !== 'to' && last !== 'of') return undefined;
+  if (replacement ? !infinitive || last === 'to' : !variant.form) return undefined;
+
+  const next = after.match(NEXT_WORD);
+  if (!next) return null;
+  const [whole, space, word] = next;
+  const lower = word.toLowerCase();
+  const forms = conjugate(lower);
+  const verb = last === 'of' ? /ing$/.test(lower) && forms?.Gerund === lower : forms?.Infinitive === lower && isVerb(lower);
+  if (!forms || !verb) return null;
+
+  const form = infinitive ? forms.Infinitive : variant.form === 'Participle' ? forms.Participle ?? forms.PastTense : forms[variant.form!];
+  if (!form) return null;
+  return { text: space + (/^[A-Z]/.test(word) ? form.charAt(0).toUpperCase() + form.slice(1) : form), length: whole.length };
+}
+
+// The term itself, then its verb forms and plural, each paired with the same
+// form of the replacement
+function inflections(term: string, replacement: string): Variant[] {
+  const words = term.toLowerCase().split(/\s+/);
+  const targets = replacement ? replacement.split(/\s+/) : [];
+  const verb = words.findIndex(inflects);
+  const target = targets.findIndex(inflects);
+  const from = verb >= 0 ? conjugate(words[verb]) : undefined;
+  const to = target >= 0 ? conjugate(targets[target]) : undefined;
+  const form = from ? (['Infinitive', ...VERB_FORMS] as (keyof VerbForms)[]).find(key => from[key] === words[verb]) : undefined;
+  const variants: Variant[] = [{ phrase: words.join(' '), replacement, form }];
+
+  if (from && (to || !replacement)) {
+    VERB_FORMS.forEach(key => {
+      if (!from[key]) return;
+      variants.push({
+        phrase: swap(words, verb, from[key]!),
+        replacement: to ? swap(targets, target, to[key] ?? to.PastTense) : '',
+        participle: key === 'PastTense' && to?.Participle ? swap(targets, target, to.Participle) : undefined,
+        form: key
+      });
+    });
+  }
+
+  const last = words.length - 1;
+  if (inflects(words[last])) {
+    const plural = pluralize(words[last]);
+    const lastTarget = targets.length - 1;
+    if (plural !== words[last]) {
+      variants.push({
+        phrase: swap(words, last, plural),
+        replacement: lastTarget >= 0 && inflects(targets[lastTarget])
+          ? swap(targets, lastTarget, pluralize(targets[lastTarget]))
+          : replacement
+      });
+    }
+  }
+
+  const seen = new Set<string>();
+  return variants.filter(variant => !seen.has(variant.phrase) && !!seen.add(variant.phrase));
+}
+
+// Function words ("in", "is", "can") keep their form
+function inflects(word: string): boolean {
+  const tags: string[] = nlp(word).json()[0]?.terms[0]?.tags || [];
+  return /^[a-z]+$/i.test(word) && !tags.some(tag => FIXED_TAGS.includes(tag));
+}
+
+function pluralize(noun: string): string {
+  const doc = nlp(noun);
+  doc.tag('Noun');
+  return doc.nouns().toPlural().text() || noun;
+}
+
+function swap(words: string[], index: number, word: string): string {
+  return words.map((w, i) => (i === index ? word : w)).join(' ');
+}
+
+function matchCase(source: string, replacement: string): string {
+  const letters = source.replace(/[^A-Za-z]/g, '');
+  if (letters.length > 1 && letters === letters.toUpperCase()) return replacement.toUpperCase();
+  return /^[A-Z]/.test(source) ? capitalize(replacement) : replacement;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// By sound where the spelling misleads: "an hour", "a use", "a unique"
+function indefiniteArticle(word: string): 'a' | 'an' {
+  if (/^(?:hour|honest|honou?r|heir)/i.test(word)) return 'an';
+  if (/^(?:uni(?![nm])|u[bcfhjklprstv][aeiouy]|eu|one\b|once\b)/i.test(word)) return 'a';
+  return /^[aeiou]/i.test(word) ? 'an' : 'a';
+}
\ No newline at end of file